@@ -1,102 +1,521 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { TerminalButton, Panel, LoadingBar, TypewriterText } from './components/TerminalUI';
-import { AppState, QuestionCount, Question, Answer, PersonalityReport, LeaderboardEntry } from './types';
-import { generateAssessmentQuestions, analyzePersonality } from './services/geminiService';
+import { TerminalButton, Panel, LoadingBar, TypewriterText, ReducedMotionContext, LocaleContext, moveNavFocus } from './components/TerminalUI';
+import { ArchiveView } from './components/ArchiveView';
+import { ProtocolBuilder } from './components/ProtocolBuilder';
+import { ComparisonView } from './components/ComparisonView';
+import { DossierCharts } from './components/DossierCharts';
+import { ReplayPanel } from './components/ReplayPanel';
+import { InterrogationPanel } from './components/InterrogationPanel';
+import { ProctorDashboard } from './components/ProctorDashboard';
+import { PrivacyView } from './components/PrivacyView';
+import { QuestionInput } from './components/QuestionInput';
+import { AppState, QuestionCount, QuestionSource, Question, Answer, PersonalityReport, AssessmentSession, AssessmentProtocol, ArchivedDossier, LeaderboardPage, LeaderboardQuery, LeaderboardWindow, UserProfile, UserRole, ProctorSettings, ReportSection, Locale, TimingSettings, QuestionType } from './types';
+import { analyzePersonality, generationMetadata, newSeed } from './services/geminiService';
+import { streamQuestionSet, QUESTION_BATCH_SIZE } from './services/questionPipeline';
+import { hasBankFor } from './services/questionBank';
+import { nextAdaptiveQuestion, estimateDimensions, shouldStopAdaptive, ADAPTIVE_MAX_QUESTIONS, ADAPTIVE_UNCERTAINTY_THRESHOLD } from './services/adaptiveEngine';
+import { toAIServiceError } from './services/providers';
+import { loadSession, saveSession, clearSession } from './services/sessionStore';
+import { listDossiers, saveDossier } from './services/archiveStore';
+import { listProtocols, saveProtocol, deleteProtocol } from './services/protocolStore';
+import { authenticate, findProfile, hasProctor, registerProfile, updateProfile, MIN_PASSPHRASE_LENGTH } from './services/profileStore';
+import { applyRetention, CONSENT_VERSION } from './services/privacyStore';
+import { findOpenInvitation, redeemInvitation, redactDossier } from './services/invitationStore';
+import { fetchLeaderboard, submitLeaderboardEntry } from './services/leaderboardService';
+import { DEFAULT_QUERY, RANKED_DEPTHS } from './services/leaderboardQuery';
+import { formatCountdown, timeoutAnswer, timeRemaining } from './services/timing';
+import { buildAnswer, questionType, ResponseInput } from './services/questionTypes';
+import { LOCALES, MessageKey, formatDate, formatNumber, loadLocale, saveLocale, translate } from './services/i18n';
+import { exportDossierJSON, exportDossierMarkdown, importDossierJSON, printDossier, downloadFile, dossierFileName } from './services/dossierExport';
+
+const REDUCED_MOTION_KEY = 'psyche7_reduced_motion';
+
+// Shortcut hints under the answer controls, per question format
+const ASSESSMENT_KEYS: Record<QuestionType, MessageKey> = {
+  'choice': 'assessment.keys',
+  'scenario': 'assessment.keys',
+  'forced-choice': 'assessment.keysForced',
+  'likert': 'assessment.keysLikert',
+  'ranking': 'assessment.keysRanking',
+  'free-text': 'assessment.keysText',
+};
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>(AppState.BOOTING);
   const [username, setUsername] = useState('');
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [registerRole, setRegisterRole] = useState<UserRole>('subject');
+  const [authError, setAuthError] = useState('');
+  const [authBusy, setAuthBusy] = useState(false);
+  const [invitationCode, setInvitationCode] = useState('');
+  const [invitationError, setInvitationError] = useState('');
   const [questions, setQuestions] = useState<Question[]>([]);
   const [answers, setAnswers] = useState<Answer[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  // Planned length of the running assessment; questions may still be arriving in the background
+  const [questionTarget, setQuestionTarget] = useState(0);
+  const [questionsLoading, setQuestionsLoading] = useState(false);
+  // Adaptive runs fetch one question at a time and stop once the estimates converge
+  const [adaptive, setAdaptive] = useState(false);
+  // Time limits of the running protocol; absent for untimed runs
+  const [timing, setTiming] = useState<TimingSettings | undefined>();
+  // Ticks while a timed assessment is on screen so the countdowns re-render
+  const [clock, setClock] = useState(Date.now);
   const [report, setReport] = useState<PersonalityReport | null>(null);
   const [errorMsg, setErrorMsg] = useState('');
+  // Answers whose analysis failed, kept so the error screen can retry it
+  const [failedAnswers, setFailedAnswers] = useState<Answer[] | null>(null);
   const [loadingProgress, setLoadingProgress] = useState(0);
-  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardPage | null>(null);
+  const [leaderboardQuery, setLeaderboardQuery] = useState<LeaderboardQuery>(DEFAULT_QUERY);
+  const [questionSource, setQuestionSource] = useState<QuestionSource>(QuestionSource.GENERATED);
+  const [pendingSession, setPendingSession] = useState<AssessmentSession | null>(null);
+  const [archive, setArchive] = useState<ArchivedDossier[]>([]);
+  const [protocols, setProtocols] = useState<AssessmentProtocol[]>(listProtocols);
+  // The dossier shown on the report screen, used for export
+  const [activeDossier, setActiveDossier] = useState<ArchivedDossier | null>(null);
+  const [importError, setImportError] = useState('');
+  const [exportError, setExportError] = useState('');
+  // Where CLOSE DOSSIER leads back to
+  const [reportReturnState, setReportReturnState] = useState<AppState>(AppState.MENU);
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const [reducedMotion, setReducedMotion] = useState(() => {
+    const stored = localStorage.getItem(REDUCED_MOTION_KEY);
+    return stored !== null ? stored === '1' : window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+  });
   
   // Track question timing
   const questionStartTime = useRef<number>(0);
+  // Elapsed time carried over from a resumed session for the current question
+  const resumedElapsed = useRef<number>(0);
+  const session = useRef<AssessmentSession | null>(null);
+  // Incremented per generation so callbacks from an abandoned run are ignored
+  const generationRun = useRef(0);
+  // Controller for the AI request in flight, aborted by the cancel button
+  const aiRequest = useRef<AbortController | null>(null);
+  // What to start once the subject accepts the data notice
+  const consentAction = useRef<(() => void) | null>(null);
 
   useEffect(() => {
     // Initial Boot Sequence
     const timer = setTimeout(() => {
       setState(AppState.AUTH);
-    }, 3500);
+    }, reducedMotion ? 0 : 3500);
     return () => clearTimeout(timer);
   }, []);
 
   useEffect(() => {
-    // Load leaderboard
-    const stored = localStorage.getItem('psyche7_leaderboard');
-    if (stored) {
-      setLeaderboard(JSON.parse(stored));
-    } else {
-      // Seed data
-      const seed: LeaderboardEntry[] = [
-        { id: '1', username: 'GHOST_01', score: 98, date: new Date().toISOString() },
-        { id: '2', username: 'NEXUS', score: 92, date: new Date().toISOString() },
-        { id: '3', username: 'CIPHER', score: 85, date: new Date().toISOString() },
-      ];
-      setLeaderboard(seed);
-      localStorage.setItem('psyche7_leaderboard', JSON.stringify(seed));
-    }
-  }, []);
+    document.body.classList.toggle('reduce-motion', reducedMotion);
+  }, [reducedMotion]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // App is the LocaleContext provider, so it translates with its own state
+  const t = (key: MessageKey, params?: Record<string, string | number>) => translate(locale, key, params);
+
+  const changeLocale = (next: Locale) => {
+    saveLocale(next);
+    setLocale(next);
+  };
+
+  const toggleReducedMotion = () => {
+    localStorage.setItem(REDUCED_MOTION_KEY, reducedMotion ? '0' : '1');
+    setReducedMotion(!reducedMotion);
+  };
+
+  useEffect(() => {
+    // Load leaderboard whenever the menu is shown or the filters change
+    if (state !== AppState.MENU) return;
+    let cancelled = false;
+    fetchLeaderboard(leaderboardQuery).then(page => {
+      if (!cancelled) setLeaderboard(page);
+    });
+    return () => { cancelled = true; };
+  }, [state, leaderboardQuery]);
   
-  // Reset timer when question changes or assessment starts
+  const currentQuestionReady = currentQuestionIndex < questions.length;
+
+  // Reset timer when question changes, assessment starts, or an awaited question arrives
   useEffect(() => {
-    if (state === AppState.ASSESSMENT) {
-        questionStartTime.current = Date.now();
+    if (state === AppState.ASSESSMENT && currentQuestionReady) {
+        questionStartTime.current = Date.now() - resumedElapsed.current;
+        resumedElapsed.current = 0;
+        setClock(Date.now());
     }
-  }, [currentQuestionIndex, state]);
+  }, [currentQuestionIndex, state, currentQuestionReady]);
+
+  // Background generation ended early while the subject was waiting for the next question
+  useEffect(() => {
+    if (state === AppState.ASSESSMENT && !questionsLoading && questions.length > 0 && currentQuestionIndex >= questions.length) {
+      finishAssessment(answers);
+    }
+  }, [state, questionsLoading, questions.length, currentQuestionIndex]);
+
+  // Time spent with the page hidden is not counted towards the current question
+  useEffect(() => {
+    if (state !== AppState.ASSESSMENT) return;
+    let hiddenAt = 0;
+
+    const handleVisibility = () => {
+      if (document.hidden) {
+        hiddenAt = Date.now();
+        if (session.current) {
+          session.current = { ...session.current, currentQuestionElapsed: hiddenAt - questionStartTime.current };
+          saveSession(session.current);
+        }
+      } else if (hiddenAt) {
+        questionStartTime.current += Date.now() - hiddenAt;
+        hiddenAt = 0;
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [state]);
+
+  useEffect(() => {
+    if (state !== AppState.ASSESSMENT || !timing) return;
+    const timer = setInterval(() => setClock(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [state, timing]);
 
-  const handleLogin = (e: React.FormEvent) => {
+  // Closes the current question when its limit, or the whole session's, runs out
+  useEffect(() => {
+    if (state !== AppState.ASSESSMENT || !timing || !currentQuestionReady || document.hidden) return;
+    const elapsed = clock - questionStartTime.current;
+    const remaining = timeRemaining(timing, answers, elapsed);
+    const sessionOver = remaining.session !== null && remaining.session <= 0;
+    if (!sessionOver && (remaining.question === null || remaining.question > 0)) return;
+
+    // Recorded as the time the limit was reached, not when the tick noticed it
+    const timeTaken = Math.round(elapsed + Math.min(remaining.question ?? Infinity, remaining.session ?? Infinity));
+    recordAnswer(timeoutAnswer(questions[currentQuestionIndex], timing.onTimeout, timeTaken), sessionOver);
+  }, [clock]);
+
+  // Unknown codenames register a new profile; known ones must match the stored passphrase
+  const registering = username.length > 2 && !findProfile(username);
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (username.trim().length > 2) {
+    if (username.trim().length <= 2 || authBusy) return;
+    if (registering && passphrase !== confirmPassphrase) {
+      setAuthError(t('auth.mismatch'));
+      return;
+    }
+
+    setAuthBusy(true);
+    try {
+      const signedIn = registering
+        ? await registerProfile(username, passphrase, registerRole)
+        : await authenticate(username, passphrase);
+      setProfile(signedIn);
+      setAuthError('');
+      applyRetention();
+      setPendingSession(loadSession(username));
       setState(AppState.MENU);
+    } catch (err: any) {
+      setAuthError(err.message.toUpperCase());
+    } finally {
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setAuthBusy(false);
+    }
+  };
+
+  const logOut = () => {
+    setProfile(null);
+    setRegisterRole('subject');
+    setInvitationCode('');
+    setInvitationError('');
+    setState(AppState.AUTH);
+  };
+
+  const isProctor = profile?.role === 'proctor';
+
+  // Runs `action` now if the subject accepted the current data notice, otherwise after they do.
+  // Reads the store rather than state so a deferred action sees the new consent.
+  const withConsent = (action: () => void) => {
+    if (findProfile(username)?.consent?.version === CONSENT_VERSION) return true;
+    consentAction.current = action;
+    setState(AppState.CONSENT);
+    return false;
+  };
+
+  const acceptConsent = () => {
+    setProfile(updateProfile(username, { consent: { version: CONSENT_VERSION, acceptedAt: new Date().toISOString() } }));
+    const action = consentAction.current;
+    consentAction.current = null;
+    setState(AppState.MENU);
+    action?.();
+  };
+
+  const declineConsent = () => {
+    consentAction.current = null;
+    setState(AppState.MENU);
+  };
+
+  // Subjects see their proctored dossiers with the withheld sections removed
+  const visibleDossier = (dossier: ArchivedDossier) => (isProctor ? dossier : redactDossier(dossier));
+
+  const resumeSession = () => {
+    if (!pendingSession) return;
+    session.current = pendingSession;
+    setPendingSession(null);
+    setQuestions(pendingSession.questions);
+    setQuestionTarget(pendingSession.adaptive ? ADAPTIVE_MAX_QUESTIONS : pendingSession.questions.length);
+    setQuestionsLoading(false);
+    setAdaptive(!!pendingSession.adaptive);
+    setTiming(pendingSession.protocol?.timing);
+    setAnswers(pendingSession.answers);
+
+    // Left while the next adaptive question was being selected
+    const awaitingAdaptive = pendingSession.adaptive
+      && pendingSession.currentQuestionIndex >= pendingSession.questions.length
+      && !shouldStopAdaptive(pendingSession.answers, estimateDimensions(pendingSession.answers));
+    if (awaitingAdaptive) {
+      setCurrentQuestionIndex(pendingSession.currentQuestionIndex);
+      setState(AppState.ASSESSMENT);
+      appendAdaptiveQuestion(pendingSession.answers, pendingSession.questions);
+      return;
+    }
+
+    // Every question was answered but analysis never completed
+    if (pendingSession.currentQuestionIndex >= pendingSession.questions.length) {
+      finishAssessment(pendingSession.answers);
+      return;
     }
+
+    setCurrentQuestionIndex(pendingSession.currentQuestionIndex);
+    resumedElapsed.current = pendingSession.currentQuestionElapsed;
+    setState(AppState.ASSESSMENT);
+  };
+
+  const discardSession = () => {
+    clearSession(username);
+    setPendingSession(null);
+  };
+
+  // Aborts any previous request so only one AI phase runs at a time
+  const beginRequest = () => {
+    aiRequest.current?.abort();
+    aiRequest.current = new AbortController();
+    return aiRequest.current.signal;
+  };
+
+  const showFailure = (err: unknown) => {
+    const failure = toAIServiceError(err);
+    setErrorMsg(`${t(`error.${failure.category}`)}: ${failure.message}`);
+    setState(AppState.ERROR);
+  };
+
+  const cancelRequest = () => {
+    aiRequest.current?.abort();
+    aiRequest.current = null;
+    generationRun.current++;
+    setQuestionsLoading(false);
+    // An analysis cancelled mid-way keeps its answers; the menu offers to resume it
+    if (state === AppState.ANALYZING) setPendingSession(session.current);
+    setState(AppState.MENU);
   };
 
-  const startAssessment = async (count: number) => {
+  const startAssessment = async (count: number, protocol?: AssessmentProtocol, proctoring?: ProctorSettings) => {
+    if (!withConsent(() => startAssessment(count, protocol, proctoring))) return;
+    const run = ++generationRun.current;
+    const signal = beginRequest();
     setState(AppState.GENERATING);
     setLoadingProgress(0);
     setErrorMsg('');
+    setQuestions([]);
+    setQuestionTarget(count);
+    setQuestionsLoading(true);
+    setAdaptive(false);
+    setTiming(protocol?.timing);
 
-    // Fake progress for visual feedback while API works
-    const interval = setInterval(() => {
-      setLoadingProgress(prev => Math.min(prev + (Math.random() * 5), 90));
-    }, 200);
+    // Recorded on the session so the question set can be traced and regenerated
+    const seed = newSeed();
+    const questionGeneration = generationMetadata('generateQuestions', { seed });
 
-    try {
-      const q = await generateAssessmentQuestions(count);
-      clearInterval(interval);
+    // The generating screen only waits for the first batch
+    const firstBatch = Math.min(count, QUESTION_BATCH_SIZE);
+    let started = false;
+
+    const handleQuestions = (received: Question[]) => {
+      if (run !== generationRun.current) return;
+      setQuestions(received);
+
+      if (started) {
+        if (session.current) {
+          session.current = { ...session.current, questions: received };
+          saveSession(session.current);
+        }
+        return;
+      }
+
+      started = true;
+      setAnswers([]);
+      setCurrentQuestionIndex(0);
+      const now = new Date().toISOString();
+      session.current = {
+        id: crypto.randomUUID(),
+        username,
+        questions: received,
+        answers: [],
+        currentQuestionIndex: 0,
+        currentQuestionElapsed: 0,
+        questionCount: count,
+        protocol,
+        proctoring,
+        locale,
+        questionGeneration,
+        startedAt: now,
+        updatedAt: now,
+      };
+      setPendingSession(null);
+      saveSession(session.current);
       setLoadingProgress(100);
-      setQuestions(q);
+      setState(AppState.ASSESSMENT);
+    };
+
+    try {
+      const final = await streamQuestionSet(count, questionSource, {
+        onQuestions: handleQuestions,
+        onProgress: (received, target) => {
+          if (run !== generationRun.current) return;
+          setLoadingProgress(started ? (received / target) * 100 : (received / firstBatch) * 100);
+        },
+      }, { signal, protocol, locale, seed });
+      if (run !== generationRun.current) return;
+      if (final.length === 0) throw new Error(t('error.noQuestions'));
+      setQuestionTarget(final.length);
+      setQuestionsLoading(false);
+    } catch (err) {
+      if (run !== generationRun.current) return;
+      setQuestionsLoading(false);
+      setFailedAnswers(null);
+      showFailure(err);
+    }
+  };
+
+  const startAdaptiveAssessment = async () => {
+    if (!withConsent(startAdaptiveAssessment)) return;
+    const run = ++generationRun.current;
+    const signal = beginRequest();
+    setState(AppState.GENERATING);
+    setLoadingProgress(0);
+    setErrorMsg('');
+    setQuestions([]);
+    setQuestionTarget(ADAPTIVE_MAX_QUESTIONS);
+    setQuestionsLoading(true);
+    setAdaptive(true);
+    setTiming(undefined);
+    const seed = newSeed();
+
+    try {
+      const first = await nextAdaptiveQuestion([], [], questionSource, { signal, locale, seed });
+      if (run !== generationRun.current) return;
+      if (!first) throw new Error(t('error.noQuestions'));
+
+      setQuestions([first]);
       setAnswers([]);
       setCurrentQuestionIndex(0);
-      
-      setTimeout(() => setState(AppState.ASSESSMENT), 500);
-    } catch (err: any) {
-      clearInterval(interval);
-      setErrorMsg(`CONNECTION FAILED: ${err.message || "UNKNOWN ERROR"}`);
-      setState(AppState.ERROR);
+      const now = new Date().toISOString();
+      session.current = {
+        id: crypto.randomUUID(),
+        username,
+        questions: [first],
+        answers: [],
+        currentQuestionIndex: 0,
+        currentQuestionElapsed: 0,
+        adaptive: true,
+        locale,
+        questionGeneration: generationMetadata('generateQuestions', { seed }),
+        startedAt: now,
+        updatedAt: now,
+      };
+      setPendingSession(null);
+      saveSession(session.current);
+      setQuestionsLoading(false);
+      setLoadingProgress(100);
+      setState(AppState.ASSESSMENT);
+    } catch (err) {
+      if (run !== generationRun.current) return;
+      setQuestionsLoading(false);
+      setFailedAnswers(null);
+      showFailure(err);
+    }
+  };
+
+  // Selects the next adaptive question; if none can be produced the assessment finishes early
+  const appendAdaptiveQuestion = async (answered: Answer[], asked: Question[]) => {
+    const run = generationRun.current;
+    const signal = beginRequest();
+    setQuestionsLoading(true);
+
+    let next: Question | null = null;
+    try {
+      next = await nextAdaptiveQuestion(answered, asked, questionSource, {
+        signal,
+        locale: session.current?.locale,
+        seed: session.current?.questionGeneration?.seed,
+        promptVersion: session.current?.questionGeneration?.promptVersion,
+      });
+    } catch (err) {
+      console.warn('Adaptive selection failed; finishing with the answers collected.', err);
+    }
+    if (run !== generationRun.current) return;
+
+    if (next) {
+      const all = [...asked, next];
+      setQuestions(all);
+      if (session.current) {
+        session.current = { ...session.current, questions: all };
+        saveSession(session.current);
+      }
     }
+    setQuestionsLoading(false);
   };
 
-  const handleAnswer = (option: string) => {
+  const handleAnswer = (input: ResponseInput) => {
     const timeTaken = Date.now() - questionStartTime.current;
-    const currentQ = questions[currentQuestionIndex];
-    
-    const newAnswer: Answer = {
-      questionId: currentQ.id,
-      questionText: currentQ.text,
-      dimension: currentQ.dimension,
-      selectedOption: option,
-      timeTaken: timeTaken
-    };
-    
+    recordAnswer(buildAnswer(questions[currentQuestionIndex], input, timeTaken));
+  };
+
+  // Stores an answer and moves on; `last` ends the assessment here, as when the session time runs out
+  const recordAnswer = (newAnswer: Answer, last = false) => {
     setAnswers(prev => [...prev, newAnswer]);
 
-    if (currentQuestionIndex < questions.length - 1) {
+    if (session.current) {
+      session.current = {
+        ...session.current,
+        answers: [...answers, newAnswer],
+        currentQuestionIndex: currentQuestionIndex + 1,
+        currentQuestionElapsed: 0,
+      };
+      saveSession(session.current);
+    }
+
+    if (last) {
+      finishAssessment([...answers, newAnswer]);
+      return;
+    }
+
+    if (adaptive) {
+      const answered = [...answers, newAnswer];
+      if (shouldStopAdaptive(answered, estimateDimensions(answered))) {
+        finishAssessment(answered);
+        return;
+      }
+      setCurrentQuestionIndex(prev => prev + 1);
+      if (currentQuestionIndex + 1 >= questions.length) appendAdaptiveQuestion(answered, questions);
+      return;
+    }
+
+    // Advance even if the next question is still being generated; the view waits for it
+    if (currentQuestionIndex < questionTarget - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
     } else {
       finishAssessment([...answers, newAnswer]);
@@ -104,6 +523,8 @@ const App: React.FC = () => {
   };
 
   const finishAssessment = async (finalAnswers: Answer[]) => {
+    const run = ++generationRun.current;
+    const signal = beginRequest();
     setState(AppState.ANALYZING);
     setLoadingProgress(0);
     
@@ -112,42 +533,219 @@ const App: React.FC = () => {
     }, 150);
 
     try {
-      const result = await analyzePersonality(finalAnswers, username);
+      const protocol = session.current?.protocol;
+      // A resumed session keeps the language it was started in
+      const language = session.current?.locale || locale;
+      const result = await analyzePersonality(finalAnswers, username, { signal, protocol, locale: language });
       clearInterval(interval);
+      if (run !== generationRun.current) return;
       setLoadingProgress(100);
-      setReport(result);
 
-      // Update Leaderboard
-      const newEntry: LeaderboardEntry = {
-        id: Math.random().toString(36).substr(2, 9),
-        username: username,
-        score: result.score,
-        date: new Date().toISOString()
+      const finished = session.current;
+      const dossier: ArchivedDossier = {
+        id: finished?.id || crypto.randomUUID(),
+        username,
+        report: result,
+        answers: finalAnswers,
+        questions: finished?.questions || questions,
+        proctoring: finished?.proctoring,
+        locale: language,
+        protocol,
+        questionGeneration: finished?.questionGeneration,
+        startedAt: finished?.startedAt || result.generatedAt,
+        completedAt: new Date().toISOString(),
       };
-      
-      const updatedLB = [...leaderboard, newEntry].sort((a, b) => b.score - a.score).slice(0, 10);
-      setLeaderboard(updatedLB);
-      localStorage.setItem('psyche7_leaderboard', JSON.stringify(updatedLB));
+      saveDossier(dossier);
+      const shown = visibleDossier(dossier);
+      setReport(shown.report);
+      setActiveDossier(shown);
+      setExportError('');
+      setReportReturnState(AppState.MENU);
+      clearSession(username);
+      session.current = null;
+
+      // Update Leaderboard; custom protocols score different dimensions, so they are not ranked,
+      // and a withheld score stays off the public rankings too. Only complete standard-depth
+      // scans are ranked: adaptive runs and short question sets are not comparable.
+      const scoreHidden = finished?.proctoring?.hiddenSections.includes('score');
+      const depth = finished?.adaptive ? undefined : finished?.questionCount ?? dossier.questions.length;
+      const ranked = depth !== undefined && RANKED_DEPTHS.includes(depth) && finalAnswers.length === depth;
+      if (!protocol && !scoreHidden && ranked) await submitLeaderboardEntry({
+        username,
+        score: result.score,
+        questionCount: depth,
+        scoringVersion: result.scoringVersion,
+      });
 
       setTimeout(() => setState(AppState.RESULT), 800);
-    } catch (err: any) {
+    } catch (err) {
       clearInterval(interval);
-      setErrorMsg(`ANALYSIS FAILED: ${err.message || "DATA CORRUPTED"}`);
-      setState(AppState.ERROR);
+      if (run !== generationRun.current) return;
+      // The session stays saved, so the answers survive both retry and a return to the menu
+      setFailedAnswers(finalAnswers);
+      setPendingSession(session.current);
+      showFailure(err);
+    }
+  };
+
+  // Starts the assessment an invitation describes; the code is spent once it is accepted
+  const redeemCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Asked before the code is spent, so declining leaves it usable
+    if (!withConsent(() => redeemCode(e))) return;
+    try {
+      const invitation = findOpenInvitation(invitationCode, username);
+      const protocol = invitation.protocolId ? protocols.find(p => p.id === invitation.protocolId) : undefined;
+      if (invitation.protocolId && !protocol) {
+        setInvitationError(t('menu.invitationProtocolMissing'));
+        return;
+      }
+      redeemInvitation(invitation.code, username);
+      setInvitationCode('');
+      setInvitationError('');
+      startAssessment(protocol ? protocol.questionCount : invitation.questionCount, protocol, {
+        invitationCode: invitation.code,
+        proctor: invitation.createdBy,
+        hiddenSections: invitation.hiddenSections,
+      });
+    } catch (err: any) {
+      setInvitationError(err.message.toUpperCase());
+    }
+  };
+
+  const openArchive = () => {
+    setArchive(listDossiers(username).map(visibleDossier));
+    setImportError('');
+    setState(AppState.ARCHIVE);
+  };
+
+  // Proctors compare every subject archived on this terminal; subjects only their own runs
+  const openComparison = () => {
+    setArchive(isProctor ? listDossiers() : listDossiers(username).map(visibleDossier));
+    setState(AppState.COMPARISON);
+  };
+
+  const openDossier = (dossier: ArchivedDossier, returnTo: AppState = AppState.ARCHIVE) => {
+    setActiveDossier(dossier);
+    setExportError('');
+    setReport(dossier.report);
+    setAnswers(dossier.answers);
+    setQuestions(dossier.questions);
+    setReportReturnState(returnTo);
+    setState(AppState.RESULT);
+  };
+
+  const importDossier = async (file: File) => {
+    try {
+      const dossier = importDossierJSON(await file.text(), username);
+      saveDossier(dossier);
+      setArchive(listDossiers(username).map(visibleDossier));
+      openDossier(visibleDossier(dossier));
+    } catch (err: unknown) {
+      setImportError(t('archive.importRejected', { reason: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const leaveScreen = () => {
+    switch (state) {
+      case AppState.GENERATING:
+      case AppState.ANALYZING:
+        cancelRequest();
+        break;
+      case AppState.ASSESSMENT:
+        // Progress is already persisted apart from time on the current question, which a time limit must keep counting
+        if (session.current && currentQuestionReady) {
+          session.current = { ...session.current, currentQuestionElapsed: Date.now() - questionStartTime.current };
+          saveSession(session.current);
+        }
+        setPendingSession(session.current);
+        setState(AppState.MENU);
+        break;
+      case AppState.RESULT:
+        setState(reportReturnState);
+        break;
+      case AppState.ARCHIVE:
+      case AppState.PROTOCOL_BUILDER:
+      case AppState.COMPARISON:
+      case AppState.PROCTOR:
+      case AppState.PRIVACY:
+      case AppState.ERROR:
+        setState(AppState.MENU);
+        break;
+      case AppState.CONSENT:
+        declineConsent();
+        break;
+      case AppState.MENU:
+        logOut();
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const target = e.target as HTMLElement;
+    const typing = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT';
+
+    if (e.key === 'Escape') {
+      if (typing) target.blur();
+      leaveScreen();
+      return;
+    }
+    if (typing) return;
+
+    // Answer shortcuts belong to QuestionInput, which knows the question format
+    if (state === AppState.ASSESSMENT) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      moveNavFocus(e.key === 'ArrowDown' ? 1 : -1);
+      return;
+    }
+
+    if (state === AppState.MENU) {
+      // Left/right page through the rankings while they have focus
+      if ((e.key === 'ArrowLeft' || e.key === 'ArrowRight') && target.closest('[data-leaderboard]') && leaderboard) {
+        const lastPage = Math.max(1, Math.ceil(leaderboard.total / leaderboard.pageSize));
+        const page = Math.min(lastPage, Math.max(1, leaderboard.page + (e.key === 'ArrowRight' ? 1 : -1)));
+        if (page !== leaderboard.page) setLeaderboardQuery(q => ({ ...q, page }));
+        return;
+      }
+      const protocols: Record<string, QuestionCount> = { '1': QuestionCount.SHORT, '2': QuestionCount.MEDIUM, '3': QuestionCount.FULL };
+      if (protocols[e.key]) startAssessment(protocols[e.key]);
+      else if (e.key === '4') startAdaptiveAssessment();
+      else if (e.key.toLowerCase() === 'r' && pendingSession) resumeSession();
+      else if (e.key.toLowerCase() === 'v') openArchive();
+      else if (e.key.toLowerCase() === 'p') setState(AppState.PROTOCOL_BUILDER);
+      else if (e.key.toLowerCase() === 'c') openComparison();
+      else if (e.key.toLowerCase() === 'o' && isProctor) setState(AppState.PROCTOR);
+      else if (e.key.toLowerCase() === 'd') setState(AppState.PRIVACY);
     }
   };
 
+  // The listener is registered once; the ref always points at the latest handler
+  const keyHandler = useRef(handleKeyDown);
+  keyHandler.current = handleKeyDown;
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyHandler.current(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+
+  const renderKeyHints = (hints: string) => (
+    <div className="font-mono text-[10px] text-term-green/50 tracking-wider" aria-hidden="true">{hints}</div>
+  );
+
   // --- VIEWS ---
 
   const renderBoot = () => (
     <div className="flex flex-col items-center justify-center h-screen text-term-green">
-      <div className="font-display text-4xl mb-4 tracking-widest animate-pulse">PSYCHE-7</div>
+      <div className="font-display text-4xl mb-4 tracking-widest animate-pulse" role="heading" aria-level={1}>PSYCHE-7</div>
       <div className="font-mono text-sm space-y-1 opacity-80">
-        <TypewriterText text="> MOUNTING KERNEL..." speed={30} />
+        <TypewriterText text={t('boot.kernel')} speed={30} />
         <br />
-        <TypewriterText text="> ESTABLISHING SECURE HANDSHAKE..." speed={20} />
+        <TypewriterText text={t('boot.handshake')} speed={20} />
         <br />
-        <TypewriterText text="> CALIBRATING NEURAL WEIGHTS..." speed={40} />
+        <TypewriterText text={t('boot.calibrate')} speed={40} />
       </div>
     </div>
   );
@@ -156,127 +754,394 @@ const App: React.FC = () => {
     <div className="flex flex-col items-center justify-center h-screen w-full max-w-md mx-auto px-4">
        <Panel className="w-full">
          <div className="text-center mb-8">
-           <h1 className="font-display text-3xl text-term-green mb-2">IDENTIFICATION</h1>
-           <p className="font-mono text-xs text-term-green-dim">ENTER CREDENTIALS TO PROCEED</p>
+           <h1 className="font-display text-3xl text-term-green mb-2">{t('auth.title')}</h1>
+           <p className="font-mono text-xs text-term-green-dim">{t('auth.subtitle')}</p>
          </div>
          <form onSubmit={handleLogin} className="space-y-6">
            <div>
-             <label className="block font-mono text-xs text-term-green mb-2">CODENAME</label>
+             <label htmlFor="codename" className="block font-mono text-xs text-term-green mb-2">{t('auth.codename')}</label>
              <input 
+              id="codename"
               type="text" 
               value={username}
-              onChange={(e) => setUsername(e.target.value.toUpperCase())}
+              onChange={(e) => { setUsername(e.target.value.toUpperCase()); setAuthError(''); }}
               className="w-full bg-black border-b border-term-green text-term-green font-mono p-2 focus:outline-none focus:border-term-cyan transition-colors"
-              placeholder="ENTER ALIAS..."
+              placeholder={t('auth.codenamePlaceholder')}
               autoFocus
              />
            </div>
-           <TerminalButton onClick={() => {}} className="w-full" disabled={username.length < 3}>
-             ACCESS TERMINAL
+           <div>
+             <label htmlFor="passphrase" className="block font-mono text-xs text-term-green mb-2">{t('auth.passphrase')}</label>
+             <input
+              id="passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className="w-full bg-black border-b border-term-green text-term-green font-mono p-2 focus:outline-none focus:border-term-cyan transition-colors"
+              autoComplete={registering ? 'new-password' : 'current-password'}
+             />
+           </div>
+           {registering && (
+             <>
+               <p className="font-mono text-[10px] text-term-amber">
+                 {t('auth.newProfile', { min: MIN_PASSPHRASE_LENGTH })}
+               </p>
+               <div>
+                 <label htmlFor="confirm-passphrase" className="block font-mono text-xs text-term-green mb-2">{t('auth.confirmPassphrase')}</label>
+                 <input
+                  id="confirm-passphrase"
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  className="w-full bg-black border-b border-term-green text-term-green font-mono p-2 focus:outline-none focus:border-term-cyan transition-colors"
+                  autoComplete="new-password"
+                 />
+               </div>
+               {!hasProctor() && (
+                 <label className="flex items-center gap-2 font-mono text-xs text-term-green cursor-pointer">
+                   <input
+                    type="checkbox"
+                    checked={registerRole === 'proctor'}
+                    onChange={(e) => setRegisterRole(e.target.checked ? 'proctor' : 'subject')}
+                    className="accent-green-500"
+                   />
+                   {t('auth.registerProctor')}
+                 </label>
+               )}
+             </>
+           )}
+           {authError && <p className="font-mono text-xs text-term-red" role="alert">{authError}</p>}
+           <TerminalButton type="submit" className="w-full" disabled={username.length < 3 || passphrase.length === 0 || authBusy}>
+             {authBusy ? t('auth.verifying') : registering ? t('auth.register') : t('auth.access')}
            </TerminalButton>
          </form>
+         <div className="flex justify-between items-center mt-6">
+           {renderKeyHints(t('auth.keys'))}
+           <button
+             onClick={toggleReducedMotion}
+             aria-pressed={reducedMotion}
+             className="font-mono text-[10px] text-term-green/70 hover:text-term-green focus:outline-none focus-visible:ring-1 focus-visible:ring-term-cyan px-1"
+           >
+             {reducedMotion ? t('auth.motionReduced') : t('auth.motionFull')}
+           </button>
+         </div>
+         <div className="flex items-center justify-end gap-1 mt-3 font-mono text-[10px]" role="group" aria-label={t('auth.language')}>
+           <span className="text-term-green-dim mr-1">{t('auth.language')}:</span>
+           {(Object.keys(LOCALES) as Locale[]).map(code => (
+             <button
+               key={code}
+               onClick={() => changeLocale(code)}
+               aria-pressed={locale === code}
+               lang={code}
+               title={LOCALES[code].language}
+               className={`px-2 py-0.5 border focus:outline-none focus-visible:ring-1 focus-visible:ring-term-cyan ${locale === code ? 'border-term-green bg-term-green text-black' : 'border-term-green/30 text-term-green'}`}
+             >
+               {LOCALES[code].label}
+             </button>
+           ))}
+         </div>
        </Panel>
     </div>
   );
 
   const renderMenu = () => (
-    <div className="flex flex-col items-center justify-center h-screen w-full max-w-4xl mx-auto px-6">
+    <div className="flex flex-col items-center justify-center min-h-screen w-full max-w-4xl mx-auto px-6 py-12">
       <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-8">
         <div className="space-y-6">
           <h2 className="font-display text-4xl text-term-green border-b border-term-green/30 pb-4">
-            EVALUATION PROTOCOLS
+            {t('menu.title')}
           </h2>
           <p className="font-mono text-sm text-gray-400">
-            Select scan depth. Deeper scans yield higher confidence metrics but require increased cognitive load.
+            {t('menu.intro')}
           </p>
+
+          <form onSubmit={redeemCode} className="flex gap-3 items-end">
+            <div className="flex-1">
+              <label htmlFor="invitation-code" className="block font-mono text-[10px] text-term-green-dim mb-1">{t('menu.invitationCode')}</label>
+              <input
+                id="invitation-code"
+                value={invitationCode}
+                onChange={(e) => { setInvitationCode(e.target.value.toUpperCase()); setInvitationError(''); }}
+                className="w-full bg-black border-b border-term-green/50 text-term-green font-mono text-sm p-1 tracking-widest focus:outline-none focus:border-term-cyan transition-colors"
+                autoComplete="off"
+              />
+            </div>
+            <TerminalButton type="submit" variant="warning" disabled={invitationCode.trim().length === 0} className="!px-3 !py-2 !text-xs">
+              {t('menu.redeem')}
+            </TerminalButton>
+          </form>
+          {invitationError && <p className="font-mono text-xs text-term-red" role="alert">{invitationError}</p>}
+
+          {pendingSession && (
+            <div className="border border-term-amber/50 p-4 font-mono text-xs text-term-amber space-y-3">
+              <div>
+                {t('menu.unfinished', { answered: pendingSession.answers.length, total: pendingSession.questions.length })}
+              </div>
+              <div className="flex gap-3">
+                <TerminalButton onClick={resumeSession} variant="warning" className="flex-1" shortcut="R">{t('menu.resume')}</TerminalButton>
+                <TerminalButton onClick={discardSession} variant="danger" className="flex-1">{t('menu.discard')}</TerminalButton>
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 font-mono text-xs">
+            <span className="text-term-green-dim mr-2">{t('menu.source')}</span>
+            {[
+              { source: QuestionSource.GENERATED, label: t('menu.sourceLive') },
+              { source: QuestionSource.MIXED, label: t('menu.sourceMixed') },
+              { source: QuestionSource.BANK, label: t('menu.sourceOffline') },
+            ].map(({ source, label }) => (
+              <button
+                key={source}
+                data-nav
+                aria-pressed={questionSource === source}
+                onClick={() => setQuestionSource(source)}
+                className={`px-3 py-1 border transition-colors ${questionSource === source ? 'border-term-green bg-term-green text-black' : 'border-term-green/30 text-term-green hover:border-term-green'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {questionSource !== QuestionSource.GENERATED && !hasBankFor(locale) && (
+            <p className="font-mono text-[10px] text-term-amber">{t('menu.sourceBankUnavailable')}</p>
+          )}
           
           <div className="space-y-4 pt-4">
-            <TerminalButton onClick={() => startAssessment(QuestionCount.SHORT)} className="w-full text-left">
+            <TerminalButton onClick={() => startAssessment(QuestionCount.SHORT)} className="w-full text-left" shortcut="1">
               <div className="flex justify-between items-center w-full">
-                <span>QUICK SCAN (20 Q)</span>
-                <span className="text-xs opacity-50">EST. 5 MIN</span>
+                <span>{t('menu.quick', { count: QuestionCount.SHORT })}</span>
+                <span className="text-xs opacity-50">{t('menu.estimate', { minutes: 5 })}</span>
               </div>
             </TerminalButton>
-            <TerminalButton onClick={() => startAssessment(QuestionCount.MEDIUM)} className="w-full text-left">
+            <TerminalButton onClick={() => startAssessment(QuestionCount.MEDIUM)} className="w-full text-left" shortcut="2">
               <div className="flex justify-between items-center w-full">
-                 <span>STANDARD PROFILE (50 Q)</span>
-                 <span className="text-xs opacity-50">EST. 15 MIN</span>
+                 <span>{t('menu.standard', { count: QuestionCount.MEDIUM })}</span>
+                 <span className="text-xs opacity-50">{t('menu.estimate', { minutes: 15 })}</span>
               </div>
             </TerminalButton>
-            <TerminalButton onClick={() => startAssessment(QuestionCount.FULL)} className="w-full text-left">
+            <TerminalButton onClick={() => startAssessment(QuestionCount.FULL)} className="w-full text-left" shortcut="3">
                <div className="flex justify-between items-center w-full">
-                 <span>DEEP PSYCHE ANALYSIS (100 Q)</span>
-                 <span className="text-xs opacity-50">EST. 30 MIN</span>
+                 <span>{t('menu.deep', { count: QuestionCount.FULL })}</span>
+                 <span className="text-xs opacity-50">{t('menu.estimate', { minutes: 30 })}</span>
                </div>
             </TerminalButton>
+            <TerminalButton onClick={startAdaptiveAssessment} className="w-full text-left" shortcut="4">
+               <div className="flex justify-between items-center w-full">
+                 <span>{t('menu.adaptive', { count: ADAPTIVE_MAX_QUESTIONS })}</span>
+                 <span className="text-xs opacity-50">{t('menu.adaptiveNote')}</span>
+               </div>
+            </TerminalButton>
+            {protocols.map(protocol => (
+              <TerminalButton key={protocol.id} onClick={() => startAssessment(protocol.questionCount, protocol)} className="w-full text-left">
+                <div className="flex justify-between items-center w-full">
+                  <span>{protocol.name} ({protocol.questionCount} Q)</span>
+                  <span className="text-xs opacity-50">{t('menu.customNote', { count: protocol.dimensions.length })}{protocol.timing ? t('menu.timedNote') : ''}</span>
+                </div>
+              </TerminalButton>
+            ))}
+            <TerminalButton onClick={() => setState(AppState.PROTOCOL_BUILDER)} variant="warning" className="w-full text-left" shortcut="P">
+               <div className="flex justify-between items-center w-full">
+                 <span>{t('menu.builder')}</span>
+                 <span className="text-xs opacity-50">{t('menu.builderNote')}</span>
+               </div>
+            </TerminalButton>
+            <TerminalButton onClick={openArchive} variant="warning" className="w-full text-left" shortcut="V">
+               <div className="flex justify-between items-center w-full">
+                 <span>{t('menu.archive')}</span>
+                 <span className="text-xs opacity-50">{t('menu.archiveNote')}</span>
+               </div>
+            </TerminalButton>
+            <TerminalButton onClick={openComparison} variant="warning" className="w-full text-left" shortcut="C">
+               <div className="flex justify-between items-center w-full">
+                 <span>{t('menu.compare')}</span>
+                 <span className="text-xs opacity-50">{t('menu.compareNote')}</span>
+               </div>
+            </TerminalButton>
+            {isProctor && (
+              <TerminalButton onClick={() => setState(AppState.PROCTOR)} variant="warning" className="w-full text-left" shortcut="O">
+                <div className="flex justify-between items-center w-full">
+                  <span>{t('menu.proctor')}</span>
+                  <span className="text-xs opacity-50">{t('menu.proctorNote')}</span>
+                </div>
+              </TerminalButton>
+            )}
+            <TerminalButton onClick={() => setState(AppState.PRIVACY)} variant="warning" className="w-full text-left" shortcut="D">
+              <div className="flex justify-between items-center w-full">
+                <span>{t('menu.privacy')}</span>
+                <span className="text-xs opacity-50">{t('menu.privacyNote')}</span>
+              </div>
+            </TerminalButton>
           </div>
         </div>
 
         <div className="space-y-6">
-           <Panel title="GLOBAL RANKINGS" className="h-full">
-              <div className="overflow-y-auto h-64 space-y-2 pr-2">
+           <Panel title={leaderboard?.offline ? t('rankings.titleOffline') : t('rankings.title')} className="h-full">
+              <div className="flex flex-wrap gap-x-4 gap-y-2 mb-3 font-mono text-[10px]">
+                <div className="flex gap-1">
+                  {[undefined, QuestionCount.SHORT, QuestionCount.MEDIUM, QuestionCount.FULL].map(depth => (
+                    <button
+                      key={depth || 'all'}
+                      onClick={() => setLeaderboardQuery(q => ({ ...q, page: 1, questionCount: depth }))}
+                      className={`px-2 py-0.5 border ${leaderboardQuery.questionCount === depth ? 'border-term-green bg-term-green text-black' : 'border-term-green/30 text-term-green'}`}
+                    >
+                      {depth ? `${depth}Q` : t('rankings.allDepths')}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex gap-1">
+                  {([['all', t('rankings.allTime')], ['month', t('rankings.month')], ['week', t('rankings.week')], ['day', t('rankings.day')]] as [LeaderboardWindow, string][]).map(([window, label]) => (
+                    <button
+                      key={window}
+                      onClick={() => setLeaderboardQuery(q => ({ ...q, page: 1, window }))}
+                      className={`px-2 py-0.5 border ${leaderboardQuery.window === window ? 'border-term-green bg-term-green text-black' : 'border-term-green/30 text-term-green'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="overflow-y-auto h-64 space-y-2 pr-2" data-leaderboard>
                 <table className="w-full text-left font-mono text-sm">
                   <thead>
                     <tr className="text-term-green-dim border-b border-term-green/20">
-                      <th className="pb-2">RANK</th>
-                      <th className="pb-2">AGENT</th>
-                      <th className="pb-2 text-right">STABILITY</th>
+                      <th className="pb-2">{t('rankings.rank')}</th>
+                      <th className="pb-2">{t('rankings.agent')}</th>
+                      <th className="pb-2">{t('rankings.depth')}</th>
+                      <th className="pb-2">{t('rankings.date')}</th>
+                      <th className="pb-2 text-right">{t('rankings.stability')}</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {leaderboard.map((entry, idx) => (
-                      <tr key={entry.id} className="text-term-green/80 hover:text-term-cyan transition-colors">
-                        <td className="py-1">{idx + 1}</td>
+                    {leaderboard?.entries.map((entry, idx) => (
+                      <tr
+                        key={entry.id}
+                        data-nav
+                        tabIndex={0}
+                        className="text-term-green/80 hover:text-term-cyan focus:text-term-cyan focus:outline-none focus:bg-term-green/10 transition-colors"
+                      >
+                        <td className="py-1">{(leaderboard.page - 1) * leaderboard.pageSize + idx + 1}</td>
                         <td className="py-1">{entry.username}</td>
-                        <td className="py-1 text-right">{entry.score.toFixed(0)}</td>
+                        <td className="py-1 text-xs">{entry.questionCount}Q</td>
+                        <td className="py-1 text-xs">{formatDate(locale, entry.date, { dateStyle: 'short' })}</td>
+                        <td className="py-1 text-right">{formatNumber(locale, entry.score)}</td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
+                {leaderboard && leaderboard.entries.length === 0 && (
+                  <p className="font-mono text-xs text-term-green-dim pt-2">{t('rankings.empty')}</p>
+                )}
               </div>
+              {leaderboard && leaderboard.total > leaderboard.pageSize && (
+                <div className="flex justify-between items-center pt-3 font-mono text-xs text-term-green">
+                  <button
+                    disabled={leaderboard.page <= 1}
+                    onClick={() => setLeaderboardQuery(q => ({ ...q, page: q.page - 1 }))}
+                    className="disabled:opacity-30"
+                  >
+                    {t('rankings.prev')}
+                  </button>
+                  <span>{t('rankings.page', { page: leaderboard.page, pages: Math.ceil(leaderboard.total / leaderboard.pageSize) })}</span>
+                  <button
+                    disabled={leaderboard.page * leaderboard.pageSize >= leaderboard.total}
+                    onClick={() => setLeaderboardQuery(q => ({ ...q, page: q.page + 1 }))}
+                    className="disabled:opacity-30"
+                  >
+                    {t('rankings.next')}
+                  </button>
+                </div>
+              )}
            </Panel>
            
            <div className="border border-term-red/30 p-4 text-xs font-mono text-term-red/80">
-              WARNING: UNAUTHORIZED DISSEMINATION OF PSYCHOMETRIC DATA IS PUNISHABLE BY TERMINATION OF CONTRACT AND IMMEDIATE MEMORY WIPING.
+              {t('menu.warning')}
            </div>
         </div>
       </div>
+      <div className="w-full mt-8">
+        {renderKeyHints(t('menu.keys', { proctor: isProctor ? t('menu.keysProctor') : '' }))}
+      </div>
     </div>
   );
 
+  // Share of dimensions whose uncertainty is already below the stopping threshold
+  const adaptiveProgress = () => {
+    const estimates = estimateDimensions(answers);
+    const resolved = estimates.filter(e => e.uncertainty <= ADAPTIVE_UNCERTAINTY_THRESHOLD).length;
+    return (resolved / estimates.length) * 100;
+  };
+
   const renderAssessment = () => {
     if (questions.length === 0) return null;
     const q = questions[currentQuestionIndex];
 
+    const remaining = timing ? timeRemaining(timing, answers, Math.max(0, clock - questionStartTime.current)) : null;
+
+    const queryTitle = adaptive
+      ? t('assessment.queryAdaptive', { index: currentQuestionIndex + 1 })
+      : t('assessment.query', { index: currentQuestionIndex + 1, total: questionTarget });
+
+    // Subject has outpaced background generation
+    if (!q) {
+      return (
+        <div className="flex flex-col items-center justify-center min-h-screen w-full max-w-3xl mx-auto px-6 py-12">
+          <Panel className="w-full" title={queryTitle}>
+            <div role="status" className="font-mono text-sm text-term-amber animate-pulse py-8 text-center">
+              {adaptive
+                ? t('assessment.awaitingAdaptive')
+                : t('assessment.awaiting', { received: questions.length, total: questionTarget })}
+            </div>
+          </Panel>
+        </div>
+      );
+    }
+
     return (
       <div className="flex flex-col items-center justify-center min-h-screen w-full max-w-3xl mx-auto px-6 py-12">
         <div className="w-full mb-8">
-           <LoadingBar progress={((currentQuestionIndex) / questions.length) * 100} label="EVALUATION PROGRESS" />
+           {adaptive ? (
+             <LoadingBar progress={adaptiveProgress()} label={t('assessment.dimensionsResolved')} />
+           ) : (
+             <LoadingBar progress={((currentQuestionIndex) / questionTarget) * 100} label={t('assessment.progress')} />
+           )}
+           {questionsLoading && !adaptive && (
+             <p role="status" className="mt-2 font-mono text-[10px] text-term-green-dim text-right">
+               {t('assessment.receiving', { received: questions.length, total: questionTarget })}
+             </p>
+           )}
         </div>
 
-        <Panel className="w-full mb-8" title={`QUERY ${currentQuestionIndex + 1}/${questions.length}`}>
-          <div className="min-h-[120px] flex items-center">
-            <h3 className="font-display text-xl md:text-2xl text-term-cyan tracking-wide leading-relaxed">
+        <Panel className="w-full mb-8" title={queryTitle}>
+          {remaining && (
+            <div className="mb-4 font-mono text-xs" role="timer">
+              <div className="flex justify-between">
+                {remaining.question !== null && (
+                  <span className={remaining.question <= 5000 ? 'text-term-red' : 'text-term-amber'}>
+                    {t('assessment.timeLeft', { time: formatCountdown(remaining.question) })}
+                  </span>
+                )}
+                {remaining.session !== null && (
+                  <span className="ml-auto text-term-green-dim">{t('assessment.sessionLeft', { time: formatCountdown(remaining.session) })}</span>
+                )}
+              </div>
+              {remaining.question !== null && timing?.questionSeconds && (
+                <div className="h-1 bg-term-amber/20 mt-2" aria-hidden="true">
+                  <div className="h-full bg-term-amber" style={{ width: `${Math.max(0, remaining.question / (timing.questionSeconds * 1000)) * 100}%` }}></div>
+                </div>
+              )}
+            </div>
+          )}
+          <div className="min-h-[120px] flex items-center" aria-live="polite">
+            <h3 id="current-query" className="font-display text-xl md:text-2xl text-term-cyan tracking-wide leading-relaxed">
               {q.text}
             </h3>
           </div>
         </Panel>
 
-        <div className="grid grid-cols-1 gap-4 w-full">
-          {q.options.map((option, idx) => (
-            <button
-              key={idx}
-              onClick={() => handleAnswer(option)}
-              className="group text-left p-4 border border-term-green/30 hover:bg-term-green/10 hover:border-term-green transition-all duration-200 flex items-center"
-            >
-              <span className="font-mono text-term-green mr-4 text-lg opacity-50 group-hover:opacity-100">
-                {String.fromCharCode(65 + idx)} //
-              </span>
-              <span className="font-mono text-gray-300 group-hover:text-white text-sm md:text-base">
-                {option}
-              </span>
-            </button>
-          ))}
+        <QuestionInput key={currentQuestionIndex} question={q} labelledBy="current-query" onAnswer={handleAnswer} />
+
+        <div className="w-full mt-6">
+          {renderKeyHints(t(ASSESSMENT_KEYS[questionType(q)]))}
         </div>
       </div>
     );
@@ -286,6 +1151,10 @@ const App: React.FC = () => {
     <div className="flex flex-col items-center justify-center h-screen w-full max-w-xl mx-auto px-6">
       <div className="w-full space-y-4">
         <LoadingBar progress={loadingProgress} label={label} />
+        <div className="flex justify-between items-center">
+          {renderKeyHints(t('loading.keys'))}
+          <TerminalButton onClick={cancelRequest} variant="danger" shortcut="Escape">{t('loading.abort')}</TerminalButton>
+        </div>
         <div className="h-32 font-mono text-xs text-term-green-dim overflow-hidden relative">
           <div className="absolute inset-0 bg-gradient-to-t from-black to-transparent z-10"></div>
           {/* Simulated logs */}
@@ -302,17 +1171,26 @@ const App: React.FC = () => {
 
   const renderReport = () => {
     if (!report) return null;
+    const redacted = (section: ReportSection) => !!report.redactedSections?.includes(section);
+    // Dossiers from before localization were generated in English
+    const dossierLocale = activeDossier?.locale || 'en';
+    const withheld = <p className="font-mono text-xs text-term-green-dim tracking-widest">{t('report.redacted')}</p>;
 
     return (
       <div className="min-h-screen w-full max-w-5xl mx-auto px-6 py-12 overflow-y-auto pb-20">
         <div className="flex justify-between items-end mb-8 border-b border-term-green/30 pb-4">
            <div>
-             <h1 className="font-display text-4xl text-white mb-1">DOSSIER: {report.subjectName}</h1>
-             <p className="font-mono text-xs text-term-green">REF: {Math.random().toString(36).substr(2, 9).toUpperCase()} // CLASSIFIED</p>
+             <h1 className="font-display text-4xl text-white mb-1">{t('report.dossier', { name: report.subjectName })}</h1>
+             <p className="font-mono text-xs text-term-green">
+               {t('report.reference', { ref: Math.random().toString(36).substr(2, 9).toUpperCase(), date: formatDate(locale, report.generatedAt) })}
+               {report.protocolName && t('report.protocol', { name: report.protocolName })}
+               {dossierLocale !== locale && t('report.language', { language: LOCALES[dossierLocale].label })}
+               {report.generation && t('report.generation', { model: report.generation.model, version: report.generation.promptVersion })}
+             </p>
            </div>
            <div className="text-right">
-             <div className="text-xs text-term-green-dim mb-1">STABILITY SCORE</div>
-             <div className="font-display text-5xl text-term-cyan">{report.score}/100</div>
+             <div className="text-xs text-term-green-dim mb-1">{t('report.stabilityScore')}</div>
+             <div className="font-display text-5xl text-term-cyan">{redacted('score') ? '--' : formatNumber(locale, report.score)}/100</div>
            </div>
         </div>
 
@@ -320,69 +1198,126 @@ const App: React.FC = () => {
           
           {/* Left Col */}
           <div className="lg:col-span-2 space-y-8">
-             <Panel title="DOMINANT TRAITS">
-               <div className="flex flex-wrap gap-2">
-                 {report.dominantTraits.map((trait, i) => (
-                   <span key={i} className="px-3 py-1 bg-term-green/10 border border-term-green/40 text-term-green text-sm font-mono">
-                     {trait}
-                   </span>
-                 ))}
-               </div>
+             <Panel title={t('report.dominantTraits')}>
+               {redacted('dominantTraits') ? withheld : (
+                 <div className="flex flex-wrap gap-2">
+                   {report.dominantTraits.map((trait, i) => (
+                     <span key={i} className="px-3 py-1 bg-term-green/10 border border-term-green/40 text-term-green text-sm font-mono">
+                       {trait}
+                     </span>
+                   ))}
+                 </div>
+               )}
              </Panel>
 
-             <Panel title="BEHAVIORAL ANALYSIS">
-               <ul className="list-disc list-outside ml-4 space-y-2 font-mono text-sm text-gray-300">
-                  {report.behavioralTendencies.map((item, i) => (
-                    <li key={i}><span className="text-term-green/70">::</span> {item}</li>
-                  ))}
-               </ul>
+             <Panel title={t('report.behavioralAnalysis')}>
+               {redacted('behavioralTendencies') ? withheld : (
+                 <ul className="list-disc list-outside ml-4 space-y-2 font-mono text-sm text-gray-300">
+                    {report.behavioralTendencies.map((item, i) => (
+                      <li key={i}><span className="text-term-green/70">::</span> {item}</li>
+                    ))}
+                 </ul>
+               )}
              </Panel>
 
              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <Panel title="OPERATIONAL STRENGTHS">
-                  <ul className="space-y-2 font-mono text-xs text-term-cyan/90">
-                    {report.strengths.map((item, i) => (
-                      <li key={i}>+ {item}</li>
-                    ))}
-                  </ul>
+                <Panel title={t('report.strengths')}>
+                  {redacted('strengths') ? withheld : (
+                    <ul className="space-y-2 font-mono text-xs text-term-cyan/90">
+                      {report.strengths.map((item, i) => (
+                        <li key={i}>+ {item}</li>
+                      ))}
+                    </ul>
+                  )}
                 </Panel>
-                <Panel title="VULNERABILITIES">
-                  <ul className="space-y-2 font-mono text-xs text-term-amber/90">
-                    {report.weaknesses.map((item, i) => (
-                      <li key={i}>! {item}</li>
-                    ))}
-                  </ul>
+                <Panel title={t('report.vulnerabilities')}>
+                  {redacted('weaknesses') ? withheld : (
+                    <ul className="space-y-2 font-mono text-xs text-term-amber/90">
+                      {report.weaknesses.map((item, i) => (
+                        <li key={i}>! {item}</li>
+                      ))}
+                    </ul>
+                  )}
                 </Panel>
              </div>
+
+             {redacted('dimensionScores') ? <Panel title={t('report.dimensionProfile')}>{withheld}</Panel> : <DossierCharts report={report} answers={answers} />}
+
+             {activeDossier && !report.redactedSections && <InterrogationPanel key={activeDossier.id} dossier={activeDossier} onSaved={setActiveDossier} />}
+
+             {activeDossier && !report.redactedSections && <ReplayPanel key={activeDossier.id} dossier={activeDossier} />}
           </div>
 
           {/* Right Col */}
           <div className="space-y-8">
-             <Panel title="RISK ASSESSMENT" className="border-term-red/50">
-               <ul className="space-y-3 font-mono text-xs text-term-red">
-                 {report.riskIndicators.length > 0 ? report.riskIndicators.map((risk, i) => (
-                   <li key={i} className="flex items-start">
-                     <span className="mr-2">WARNING:</span> {risk}
-                   </li>
-                 )) : <li>NO CRITICAL ANOMALIES DETECTED.</li>}
-               </ul>
+             <Panel title={t('report.riskAssessment')} className="border-term-red/50">
+               {redacted('riskIndicators') ? withheld : (
+                 <ul className="space-y-3 font-mono text-xs text-term-red">
+                   {report.riskIndicators.length > 0 ? report.riskIndicators.map((risk, i) => (
+                     <li key={i} className="flex items-start">
+                       <span className="mr-2">{t('report.riskWarning')}</span> {risk}
+                     </li>
+                   )) : <li>{t('report.noRisks')}</li>}
+                 </ul>
+               )}
              </Panel>
 
-             <div className="border border-term-green/20 p-4 bg-term-black">
-               <div className="text-xs text-term-green-dim mb-2">ALGORITHM CONFIDENCE</div>
+             {!redacted('score') && <div className="border border-term-green/20 p-4 bg-term-black">
+               <div className="text-xs text-term-green-dim mb-2">{t('report.confidence')}</div>
                <div className="h-2 bg-term-green/10 w-full mb-1">
                  <div className="h-full bg-term-green/50" style={{ width: `${report.confidenceScore}%`}}></div>
                </div>
-               <div className="text-right text-xs font-mono text-term-green">{report.confidenceScore}% VERIFIED</div>
-             </div>
+               <div className="text-right text-xs font-mono text-term-green">{t('report.verified', { percent: formatNumber(locale, report.confidenceScore) })}</div>
+             </div>}
+
+             {redacted('integrity') && <Panel title={t('report.integrity')}>{withheld}</Panel>}
 
-             <TerminalButton onClick={() => setState(AppState.MENU)} className="w-full">
-               CLOSE DOSSIER
+             {report.integrity && (
+               <Panel title={t('report.integrityScore', { score: report.integrity.integrityScore })}>
+                 <div className="grid grid-cols-2 gap-2 font-mono text-xs text-term-green mb-3">
+                   <div>{t('report.speeding', { count: report.integrity.speedingCount })}</div>
+                   <div>{t('report.longPauses', { count: report.integrity.longPauseCount })}</div>
+                   <div>{t('report.straightLine', { count: report.integrity.longestStraightLine })}</div>
+                   <div>{t('report.contradictions', { count: report.integrity.inconsistentPairs })}</div>
+                   {!!report.integrity.timeoutCount && <div>{t('report.timeouts', { count: report.integrity.timeoutCount })}</div>}
+                 </div>
+                 <ul className="space-y-1 font-mono text-[11px] text-term-amber/90 max-h-40 overflow-y-auto">
+                   {report.integrity.flags.length > 0 ? report.integrity.flags.map((flag, i) => (
+                     <li key={i}>[{flag.type.toUpperCase()}] {flag.detail}</li>
+                   )) : <li className="text-term-green">{t('report.noAnomalies')}</li>}
+                 </ul>
+               </Panel>
+             )}
+
+             {/* Exports would carry the redacted copy as if it were the full dossier */}
+             {activeDossier && !report.redactedSections && (
+               <div className="grid grid-cols-3 gap-2">
+                 <TerminalButton
+                   onClick={() => downloadFile(dossierFileName(activeDossier, 'json'), exportDossierJSON(activeDossier), 'application/json')}
+                   className="px-2 text-xs"
+                 >
+                   JSON
+                 </TerminalButton>
+                 <TerminalButton
+                   onClick={() => downloadFile(dossierFileName(activeDossier, 'md'), exportDossierMarkdown(activeDossier), 'text/markdown')}
+                   className="px-2 text-xs"
+                 >
+                   MD
+                 </TerminalButton>
+                 <TerminalButton onClick={() => setExportError(printDossier(activeDossier) ? '' : t('report.printBlocked'))} className="px-2 text-xs">
+                   PRINT
+                 </TerminalButton>
+               </div>
+             )}
+             {exportError && <p className="font-mono text-xs text-term-red" role="alert">{exportError}</p>}
+
+             <TerminalButton onClick={() => setState(reportReturnState)} className="w-full">
+               {t('report.close')}
              </TerminalButton>
              
              <div className="text-center">
                  <p className="text-[10px] text-gray-600 font-mono mt-4">
-                   This evaluation is AI-generated and for entertainment purposes only. Do not use for clinical diagnosis.
+                   {t('report.disclaimer')}
                  </p>
              </div>
           </div>
@@ -392,27 +1327,107 @@ const App: React.FC = () => {
     );
   };
 
+  const renderConsent = () => (
+    <div className="flex flex-col items-center justify-center min-h-screen w-full max-w-2xl mx-auto px-6 py-12">
+      <Panel title={t('consent.title')} className="w-full">
+        <p className="font-mono text-sm text-term-green mb-6">{t('consent.intro')}</p>
+        {([
+          ['consent.sentTitle', ['consent.sentAnswers', 'consent.sentScores', 'consent.sentSettings', 'consent.sentInterrogation', 'consent.notSent']],
+          ['consent.storedTitle', ['consent.stored', 'consent.retention']],
+          ['consent.rankingsTitle', ['consent.rankings']],
+        ] as [MessageKey, MessageKey[]][]).map(([title, items]) => (
+          <section key={title} className="mb-5">
+            <h2 className="font-mono text-xs text-term-cyan mb-2">{t(title)}</h2>
+            <ul className="font-mono text-xs text-gray-300 space-y-1">
+              {items.map(item => <li key={item}>- {t(item)}</li>)}
+            </ul>
+          </section>
+        ))}
+        <p className="font-mono text-xs text-term-amber mb-6">{t('consent.rights')}</p>
+        <div className="flex gap-4">
+          <TerminalButton onClick={acceptConsent} className="flex-1">{t('consent.accept')}</TerminalButton>
+          <TerminalButton onClick={declineConsent} variant="danger">{t('consent.decline')}</TerminalButton>
+        </div>
+      </Panel>
+      <div className="w-full mt-4">{renderKeyHints(t('consent.keys'))}</div>
+    </div>
+  );
+
   const renderError = () => (
-     <div className="flex flex-col items-center justify-center h-screen text-term-red">
-       <div className="font-display text-4xl mb-4">SYSTEM FAILURE</div>
+     <div className="flex flex-col items-center justify-center h-screen text-term-red" role="alert">
+       <div className="font-display text-4xl mb-4">{t('error.title')}</div>
        <p className="font-mono mb-8">{errorMsg}</p>
-       <TerminalButton onClick={() => setState(AppState.MENU)} variant="danger">
-         REBOOT SYSTEM
-       </TerminalButton>
+       {failedAnswers ? (
+         <div className="flex gap-4">
+           <TerminalButton onClick={() => finishAssessment(failedAnswers)} variant="warning">
+             {t('error.retry', { count: failedAnswers.length })}
+           </TerminalButton>
+           <TerminalButton onClick={() => setState(AppState.MENU)} variant="danger">
+             {t('error.returnToMenu')}
+           </TerminalButton>
+         </div>
+       ) : (
+         <TerminalButton onClick={() => setState(AppState.MENU)} variant="danger">
+           {t('error.reboot')}
+         </TerminalButton>
+       )}
      </div>
   );
 
   return (
-    <div className="min-h-screen bg-black text-white relative z-10 selection:bg-term-green selection:text-black">
-      {state === AppState.BOOTING && renderBoot()}
-      {state === AppState.AUTH && renderAuth()}
-      {state === AppState.MENU && renderMenu()}
-      {state === AppState.GENERATING && renderLoading("GENERATING NEURAL PATHWAYS...")}
-      {state === AppState.ASSESSMENT && renderAssessment()}
-      {state === AppState.ANALYZING && renderLoading("COMPILING PSYCHOMETRIC DATA...")}
-      {state === AppState.RESULT && renderReport()}
-      {state === AppState.ERROR && renderError()}
-    </div>
+    <ReducedMotionContext.Provider value={reducedMotion}>
+      <LocaleContext.Provider value={locale}>
+        <div className="min-h-screen bg-black text-white relative z-10 selection:bg-term-green selection:text-black">
+          {state === AppState.BOOTING && renderBoot()}
+          {state === AppState.AUTH && renderAuth()}
+          {state === AppState.MENU && renderMenu()}
+          {state === AppState.GENERATING && renderLoading(t('loading.generating'))}
+          {state === AppState.ASSESSMENT && renderAssessment()}
+          {state === AppState.ANALYZING && renderLoading(t('loading.analyzing'))}
+          {state === AppState.RESULT && renderReport()}
+          {state === AppState.ARCHIVE && (
+            <ArchiveView
+              username={username}
+              dossiers={archive}
+              onOpen={openDossier}
+              onImport={importDossier}
+              importError={importError}
+              onBack={() => setState(AppState.MENU)}
+            />
+          )}
+          {state === AppState.PROTOCOL_BUILDER && (
+            <ProtocolBuilder
+              protocols={protocols}
+              onSave={(protocol) => { saveProtocol(protocol); setProtocols(listProtocols()); }}
+              onDelete={(id) => { deleteProtocol(id); setProtocols(listProtocols()); }}
+              onBack={() => setState(AppState.MENU)}
+            />
+          )}
+          {state === AppState.COMPARISON && (
+            <ComparisonView dossiers={archive} onBack={() => setState(AppState.MENU)} />
+          )}
+          {state === AppState.PROCTOR && profile && (
+            <ProctorDashboard
+              proctor={profile}
+              protocols={protocols}
+              onOpenDossier={(dossier) => openDossier(dossier, AppState.PROCTOR)}
+              onBack={() => setState(AppState.MENU)}
+            />
+          )}
+          {state === AppState.CONSENT && renderConsent()}
+          {state === AppState.PRIVACY && profile && (
+            <PrivacyView
+              profile={profile}
+              canEditRetention={isProctor || !hasProctor()}
+              onProfileChange={setProfile}
+              onErased={logOut}
+              onBack={() => setState(AppState.MENU)}
+            />
+          )}
+          {state === AppState.ERROR && renderError()}
+        </div>
+      </LocaleContext.Provider>
+    </ReducedMotionContext.Provider>
   );
 };
 
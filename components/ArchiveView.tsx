@@ -0,0 +1,144 @@
+import React from 'react';
+import { TerminalButton, Panel, useTranslation } from './TerminalUI';
+import { ArchivedDossier } from '../types';
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+
+const scoreSealed = (d: ArchivedDossier) => !!d.report.redactedSections?.includes('score');
+
+// Stability score across runs, oldest on the left; runs whose score a proctor withheld are skipped
+const TrendChart: React.FC<{ dossiers: ArchivedDossier[] }> = ({ dossiers }) => {
+  const runs = dossiers.filter(d => !scoreSealed(d)).reverse();
+  const step = runs.length > 1 ? CHART_WIDTH / (runs.length - 1) : 0;
+  const points = runs.map((d, i) => ({
+    x: runs.length > 1 ? i * step : CHART_WIDTH / 2,
+    y: CHART_HEIGHT - (d.report.score / 100) * CHART_HEIGHT,
+    score: d.report.score,
+  }));
+
+  return (
+    <svg viewBox={`-10 -10 ${CHART_WIDTH + 20} ${CHART_HEIGHT + 20}`} className="w-full h-40">
+      {[25, 50, 75].map(level => (
+        <line
+          key={level}
+          x1={0} x2={CHART_WIDTH}
+          y1={CHART_HEIGHT - level} y2={CHART_HEIGHT - level}
+          className="stroke-term-green/20" strokeDasharray="2 4"
+        />
+      ))}
+      <polyline
+        points={points.map(p => `${p.x},${p.y}`).join(' ')}
+        fill="none" className="stroke-term-cyan" strokeWidth={1.5}
+      />
+      {points.map((p, i) => (
+        <g key={i}>
+          <circle cx={p.x} cy={p.y} r={2.5} className="fill-term-cyan" />
+          <text x={p.x} y={p.y - 6} textAnchor="middle" className="fill-term-green font-mono" fontSize={8}>{p.score}</text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export const ArchiveView: React.FC<{
+  username: string;
+  dossiers: ArchivedDossier[];
+  onOpen: (dossier: ArchivedDossier) => void;
+  onImport: (file: File) => void;
+  importError?: string;
+  onBack: () => void;
+}> = ({ username, dossiers, onOpen, onImport, importError, onBack }) => {
+  const recent = dossiers.slice(0, 6).reverse();
+  // Custom protocols score their own dimensions, so rows cover every dimension seen in these runs
+  const dimensionNames = [...new Set<string>(recent.flatMap(d => Object.keys(d.report.dimensionScores || {})))];
+  const fileInput = React.useRef<HTMLInputElement>(null);
+  const { t, formatDate } = useTranslation();
+
+  return (
+    <div className="min-h-screen w-full max-w-5xl mx-auto px-6 py-12">
+      <div className="flex justify-between items-end mb-8 border-b border-term-green/30 pb-4">
+        <div>
+          <h1 className="font-display text-4xl text-white mb-1">{t('archive.title', { name: username })}</h1>
+          <p className="font-mono text-xs text-term-green">{t('archive.count', { count: dossiers.length })}</p>
+        </div>
+        <div className="flex gap-3">
+          <TerminalButton onClick={() => fileInput.current?.click()} variant="warning">{t('archive.import')}</TerminalButton>
+          <TerminalButton onClick={onBack}>{t('archive.return')}</TerminalButton>
+        </div>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {importError && (
+        <div className="border border-term-red/50 p-3 mb-6 font-mono text-xs text-term-red">{importError}</div>
+      )}
+
+      {dossiers.length === 0 ? (
+        <p className="font-mono text-sm text-term-green-dim">{t('archive.empty')}</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <Panel title={t('archive.dossiers')}>
+            <div className="overflow-y-auto max-h-96 space-y-2 pr-2">
+              {dossiers.map(d => (
+                <button
+                  key={d.id}
+                  data-nav
+                  onClick={() => onOpen(d)}
+                  className="w-full text-left p-3 border border-term-green/20 hover:border-term-green hover:bg-term-green/10 focus:outline-none focus-visible:border-term-cyan focus-visible:bg-term-green/10 transition-colors font-mono text-sm flex justify-between"
+                >
+                  <span className="text-term-green">
+                    {formatDate(d.completedAt)}
+                    <span className="text-term-green-dim ml-2">{t('archive.questions', { count: d.answers.length })}</span>
+                    {d.report.protocolName && <span className="text-term-amber ml-2">{d.report.protocolName}</span>}
+                  </span>
+                  <span className="text-term-cyan">{scoreSealed(d) ? t('archive.sealed') : `${d.report.score}/100`}</span>
+                </button>
+              ))}
+            </div>
+          </Panel>
+
+          <div className="space-y-8">
+            <Panel title={t('archive.stabilityTrend')}>
+              <TrendChart dossiers={dossiers} />
+            </Panel>
+
+            <Panel title={t('archive.dimensionTrend')}>
+              <div className="overflow-x-auto">
+                <table className="w-full font-mono text-xs">
+                  <thead>
+                    <tr className="text-term-green-dim border-b border-term-green/20">
+                      <th className="pb-2 text-left">{t('archive.dimension')}</th>
+                      {recent.map((d, i) => (
+                        <th key={d.id} className="pb-2 text-right">{t('archive.run', { number: dossiers.length - recent.length + i + 1 })}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dimensionNames.map(name => (
+                      <tr key={name} className="text-term-green/80">
+                        <td className="py-1 pr-2">{name}</td>
+                        {recent.map(d => (
+                          <td key={d.id} className="py-1 text-right">{d.report.dimensionScores?.[name] ?? '--'}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Panel>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
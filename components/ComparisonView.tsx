@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TerminalButton, Panel, useTranslation } from './TerminalUI';
+import { ArchivedDossier, CompatibilityReport } from '../types';
+import { compareDimensions, compatibilityScore, latestPerSubject, MAX_COMPARED } from '../services/comparison';
+import { analyzeCompatibility } from '../services/geminiService';
+import { toAIServiceError } from '../services/providers';
+import { findProfile } from '../services/profileStore';
+import { pseudonymFor } from '../services/privacyStore';
+
+// A proctor may withhold the stability score from the subject's copy of a dossier
+const stability = (d: ArchivedDossier) => (d.report.redactedSections?.includes('score') ? '--' : d.report.score);
+
+const FindingList: React.FC<{ title: string; items: string[]; marker: string; className?: string }> = ({ title, items, marker, className = 'text-term-green' }) => {
+  const { t } = useTranslation();
+  return (
+    <div>
+      <h4 className="font-mono text-xs text-term-green-dim mb-2">{title}</h4>
+      {items.length === 0 ? (
+        <p className="font-mono text-xs text-term-green-dim">{t('compare.noneRecorded')}</p>
+      ) : (
+        <ul className={`space-y-1 font-mono text-sm ${className}`}>
+          {items.map((item, i) => <li key={i}><span className="opacity-50 mr-2">{marker}</span>{item}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const ComparisonView: React.FC<{
+  dossiers: ArchivedDossier[];
+  onBack: () => void;
+}> = ({ dossiers, onBack }) => {
+  const { t } = useTranslation();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [report, setReport] = useState<CompatibilityReport | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [error, setError] = useState('');
+  const request = useRef<AbortController | null>(null);
+
+  useEffect(() => () => request.current?.abort(), []);
+
+  const selected = selectedIds
+    .map(id => dossiers.find(d => d.id === id))
+    .filter((d): d is ArchivedDossier => !!d);
+  const comparison = compareDimensions(selected);
+  const label = (d: ArchivedDossier) =>
+    selected.filter(other => other.username === d.username).length > 1 ? `${d.username} ${d.completedAt.slice(5, 10)}` : d.username;
+
+  const changeSelection = (ids: string[]) => {
+    request.current?.abort();
+    setSelectedIds(ids.slice(0, MAX_COMPARED));
+    setReport(null);
+    setAnalyzing(false);
+    setError('');
+  };
+
+  const toggle = (id: string) =>
+    changeSelection(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+
+  const generate = async () => {
+    request.current?.abort();
+    request.current = new AbortController();
+    setAnalyzing(true);
+    setError('');
+    try {
+      // Subjects who chose pseudonymity are never named to the provider
+      const aliases = Object.fromEntries(await Promise.all(
+        selected.filter(d => findProfile(d.username)?.pseudonymize).map(async d => [d.username, await pseudonymFor(d.username)])
+      ));
+      setReport(await analyzeCompatibility(selected, { signal: request.current.signal, aliases }));
+    } catch (err) {
+      const failure = toAIServiceError(err);
+      if (failure.category !== 'cancelled') setError(`${failure.category.toUpperCase()}: ${failure.message}`);
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full max-w-6xl mx-auto px-6 py-12">
+      <div className="flex justify-between items-end mb-8 border-b border-term-green/30 pb-4">
+        <div>
+          <h1 className="font-display text-4xl text-white mb-1">{t('compare.title')}</h1>
+          <p className="font-mono text-xs text-term-green">{t('compare.selected', { selected: selected.length, total: dossiers.length, max: MAX_COMPARED })}</p>
+        </div>
+        <TerminalButton onClick={onBack}>{t('compare.return')}</TerminalButton>
+      </div>
+
+      {dossiers.length < 2 ? (
+        <p className="font-mono text-sm text-term-green-dim">{t('compare.tooFew')}</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <Panel title={t('compare.dossiers')}>
+            <div className="flex gap-2 mb-4">
+              <TerminalButton onClick={() => changeSelection(latestPerSubject(dossiers).map(d => d.id))} className="flex-1 !px-2 !py-2 !text-xs">
+                {t('compare.fullRoster')}
+              </TerminalButton>
+              <TerminalButton onClick={() => changeSelection([])} variant="danger" className="!px-2 !py-2 !text-xs">{t('compare.clear')}</TerminalButton>
+            </div>
+            <div className="overflow-y-auto max-h-96 space-y-2 pr-2">
+              {dossiers.map(d => (
+                <label
+                  key={d.id}
+                  className={`flex items-center gap-3 p-2 border font-mono text-xs cursor-pointer transition-colors ${selectedIds.includes(d.id) ? 'border-term-cyan bg-term-green/10' : 'border-term-green/20 hover:border-term-green'}`}
+                >
+                  <input
+                    type="checkbox"
+                    data-nav
+                    checked={selectedIds.includes(d.id)}
+                    disabled={!selectedIds.includes(d.id) && selectedIds.length >= MAX_COMPARED}
+                    onChange={() => toggle(d.id)}
+                    className="accent-green-500"
+                  />
+                  <span className="flex-1 text-term-green">
+                    {d.username}
+                    <span className="text-term-green-dim ml-2">{d.completedAt.slice(0, 10)}</span>
+                    {d.report.protocolName && <span className="text-term-amber ml-2">{d.report.protocolName}</span>}
+                  </span>
+                  <span className="text-term-cyan">{stability(d)}</span>
+                </label>
+              ))}
+            </div>
+          </Panel>
+
+          <div className="lg:col-span-2 space-y-8">
+            <Panel title={t('compare.dimensionComparison')}>
+              {selected.length < 2 ? (
+                <p className="font-mono text-xs text-term-green-dim">{t('compare.selectHint')}</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full font-mono text-xs">
+                    <thead>
+                      <tr className="text-term-green-dim border-b border-term-green/20">
+                        <th className="pb-2 text-left">{t('compare.dimension')}</th>
+                        {selected.map(d => <th key={d.id} className="pb-2 text-right px-1">{label(d)}</th>)}
+                        <th className="pb-2 text-right">{t('compare.spread')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      <tr className="text-term-cyan border-b border-term-green/10">
+                        <td className="py-1 pr-2">{t('compare.stability')}</td>
+                        {selected.map(d => <td key={d.id} className="py-1 text-right px-1">{stability(d)}</td>)}
+                        <td />
+                      </tr>
+                      {comparison.map(c => (
+                        <tr key={c.dimension} className={c.divergent ? 'text-term-amber' : 'text-term-green/80'}>
+                          <td className="py-1 pr-2">{c.divergent && <span aria-label={t('compare.divergent')}>! </span>}{c.dimension}</td>
+                          {selected.map(d => <td key={d.id} className="py-1 text-right px-1">{c.scores[d.id] ?? '--'}</td>)}
+                          <td className="py-1 text-right">{c.spread}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="font-mono text-[10px] text-term-green-dim mt-3">
+                    {t('compare.legend', { score: compatibilityScore(comparison) })}
+                  </p>
+                </div>
+              )}
+            </Panel>
+
+            {selected.length >= 2 && (
+              <Panel title={t(selected.length === 2 ? 'compare.pairTitle' : 'compare.teamTitle')}>
+                {!report && (
+                  <div className="flex gap-3 items-center">
+                    <TerminalButton onClick={generate} disabled={analyzing}>
+                      {t(analyzing ? 'compare.analyzing' : selected.length === 2 ? 'compare.generatePair' : 'compare.generateTeam')}
+                    </TerminalButton>
+                    {analyzing && (
+                      <TerminalButton onClick={() => request.current?.abort()} variant="danger">{t('compare.abort')}</TerminalButton>
+                    )}
+                  </div>
+                )}
+                {error && <p className="font-mono text-xs text-term-red mt-3" role="alert">{error}</p>}
+                {report && (
+                  <div className="space-y-6" aria-live="polite">
+                    <div className="flex justify-between items-baseline">
+                      <span className="font-mono text-xs text-term-green-dim">{report.subjects.join(' // ')}</span>
+                      <span className="font-display text-3xl text-term-cyan">{report.compatibilityScore}/100</span>
+                    </div>
+                    <p className="font-mono text-sm text-gray-300 leading-relaxed">{report.summary}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <FindingList title={t('compare.synergies')} items={report.synergies} marker="+" />
+                      <FindingList title={t('compare.frictionPoints')} items={report.frictionPoints} marker="!" className="text-term-amber" />
+                    </div>
+                    <FindingList title={t('compare.recommendations')} items={report.recommendations} marker="::" />
+                  </div>
+                )}
+              </Panel>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
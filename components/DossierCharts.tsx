@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Panel, useTranslation } from './TerminalUI';
+import { Answer, PersonalityReport } from '../types';
+import { describeChoice } from '../services/timing';
+
+const RADAR_SIZE = 240;
+const RADAR_RADIUS = 90;
+const TIMELINE_WIDTH = 600;
+const TIMELINE_HEIGHT = 120;
+// Response times are shown in seconds to one decimal place
+const SECONDS: Intl.NumberFormatOptions = { minimumFractionDigits: 1, maximumFractionDigits: 1 };
+
+// "Analytical vs Emotional Decision-Making" -> "AVEDM", so axis labels fit around the radar
+const abbreviate = (name: string) =>
+  name.split(/[\s/-]+/).filter(Boolean).map(word => word[0]).join('').toUpperCase().slice(0, 5);
+
+const formatWeight = (weight: number) => (weight > 0 ? `+${weight}` : `${weight}`);
+
+const RadarChart: React.FC<{
+  scores: [string, number][];
+  selected: string | null;
+  onSelect: (dimension: string) => void;
+}> = ({ scores, selected, onSelect }) => {
+  const { t } = useTranslation();
+  const center = RADAR_SIZE / 2;
+  const point = (index: number, value: number) => {
+    const angle = (Math.PI * 2 * index) / scores.length - Math.PI / 2;
+    const r = (value / 100) * RADAR_RADIUS;
+    return { x: center + r * Math.cos(angle), y: center + r * Math.sin(angle) };
+  };
+  const ring = (level: number) => scores.map((_, i) => point(i, level)).map(p => `${p.x},${p.y}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${RADAR_SIZE} ${RADAR_SIZE}`} className="w-full max-w-xs mx-auto" role="img" aria-label={t('charts.radarLabel')}>
+      {[25, 50, 75, 100].map(level => (
+        <polygon key={level} points={ring(level)} fill="none" className="stroke-term-green/20" strokeDasharray={level === 100 ? undefined : '2 3'} />
+      ))}
+      {scores.map(([name], i) => {
+        const edge = point(i, 100);
+        return <line key={name} x1={center} y1={center} x2={edge.x} y2={edge.y} className="stroke-term-green/20" />;
+      })}
+      <polygon
+        points={scores.map(([, score], i) => point(i, score)).map(p => `${p.x},${p.y}`).join(' ')}
+        className="fill-term-cyan/20 stroke-term-cyan"
+        strokeWidth={1.5}
+      />
+      {scores.map(([name, score], i) => {
+        const dot = point(i, score);
+        const label = point(i, 118);
+        return (
+          <g key={name} onClick={() => onSelect(name)} className="cursor-pointer">
+            <title>{`${name}: ${score}`}</title>
+            <circle cx={dot.x} cy={dot.y} r={selected === name ? 4 : 2.5} className={selected === name ? 'fill-term-amber' : 'fill-term-cyan'} />
+            <text
+              x={label.x} y={label.y}
+              textAnchor="middle" dominantBaseline="middle"
+              className={`font-mono ${selected === name ? 'fill-term-amber' : 'fill-term-green'}`}
+              fontSize={8}
+            >
+              {abbreviate(name)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const ResponseTimeline: React.FC<{
+  answers: Answer[];
+  selected: string | null;
+  flaggedIds: Set<number>;
+}> = ({ answers, selected, flaggedIds }) => {
+  const { t, formatNumber } = useTranslation();
+  const longest = Math.max(1, ...answers.map(a => a.timeTaken));
+  const slot = TIMELINE_WIDTH / Math.max(1, answers.length);
+  const median = [...answers].map(a => a.timeTaken).sort((a, b) => a - b)[Math.floor(answers.length / 2)] || 0;
+  const medianY = TIMELINE_HEIGHT - (median / longest) * TIMELINE_HEIGHT;
+
+  return (
+    <svg viewBox={`0 0 ${TIMELINE_WIDTH} ${TIMELINE_HEIGHT + 14}`} className="w-full h-36" role="img" aria-label={t('charts.timelineLabel')}>
+      {answers.map((a, i) => {
+        const height = Math.max(1, (a.timeTaken / longest) * TIMELINE_HEIGHT);
+        const tone = flaggedIds.has(a.questionId)
+          ? 'fill-term-amber'
+          : selected && !(selected in (a.weights || {})) ? 'fill-term-green/15' : 'fill-term-green/60';
+        return (
+          <rect key={i} x={i * slot + slot * 0.15} y={TIMELINE_HEIGHT - height} width={slot * 0.7} height={height} className={tone}>
+            <title>{`Q${i + 1} // ${a.dimension} // ${formatNumber(a.timeTaken / 1000, SECONDS)}s`}</title>
+          </rect>
+        );
+      })}
+      <line x1={0} x2={TIMELINE_WIDTH} y1={medianY} y2={medianY} className="stroke-term-cyan/60" strokeDasharray="4 4" />
+      <text x={TIMELINE_WIDTH} y={TIMELINE_HEIGHT + 12} textAnchor="end" className="fill-term-green-dim font-mono" fontSize={9}>
+        {t('charts.timelineScale', { median: formatNumber(median / 1000, SECONDS), max: formatNumber(longest / 1000, SECONDS) })}
+      </text>
+      <text x={0} y={TIMELINE_HEIGHT + 12} className="fill-term-green-dim font-mono" fontSize={9}>Q1</text>
+    </svg>
+  );
+};
+
+/**
+ * Radar, per-dimension bars and a response-time timeline for one dossier. Selecting a
+ * dimension lists the answers that contributed to its score.
+ */
+export const DossierCharts: React.FC<{ report: PersonalityReport; answers: Answer[] }> = ({ report, answers }) => {
+  const { t, formatNumber } = useTranslation();
+  const [selected, setSelected] = useState<string | null>(null);
+  const scores = Object.entries(report.dimensionScores || {});
+  const flaggedIds = new Set((report.integrity?.flags || []).flatMap(f => f.questionIds));
+  const toggle = (dimension: string) => setSelected(current => (current === dimension ? null : dimension));
+
+  const trace = selected
+    ? answers.map((a, i) => ({ answer: a, index: i, weight: a.weights?.[selected] })).filter(t => t.weight !== undefined)
+    : [];
+
+  if (scores.length === 0) return null;
+
+  return (
+    <>
+      <Panel title={t('report.dimensionProfile')}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
+          {scores.length >= 3 ? (
+            <RadarChart scores={scores} selected={selected} onSelect={toggle} />
+          ) : (
+            <p className="font-mono text-xs text-term-green-dim">{t('charts.radarMinimum')}</p>
+          )}
+          <div className="space-y-1">
+            {scores.map(([name, score]) => (
+              <button
+                key={name}
+                data-nav
+                onClick={() => toggle(name)}
+                aria-pressed={selected === name}
+                className={`w-full text-left font-mono text-[11px] px-1 py-0.5 focus:outline-none focus-visible:ring-1 focus-visible:ring-term-cyan ${selected === name ? 'text-term-amber' : 'text-term-green/80 hover:text-term-green'}`}
+              >
+                <div className="flex justify-between">
+                  <span className="truncate pr-2">{name}</span>
+                  <span>{score}</span>
+                </div>
+                <div className="h-1.5 bg-term-green/10 w-full">
+                  <div className={`h-full ${selected === name ? 'bg-term-amber' : 'bg-term-green/60'}`} style={{ width: `${score}%` }} />
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      </Panel>
+
+      {selected && (
+        <Panel title={t('charts.trace', { dimension: selected })}>
+          <div aria-live="polite">
+            {report.dimensionRationale?.[selected] && (
+              <p className="font-mono text-sm text-gray-300 mb-4">{report.dimensionRationale[selected]}</p>
+            )}
+            {trace.length === 0 ? (
+              <p className="font-mono text-xs text-term-green-dim">{t('charts.noContributions')}</p>
+            ) : (
+              <ul className="space-y-3 max-h-72 overflow-y-auto pr-2">
+                {trace.map(({ answer, index, weight }) => (
+                  <li key={index} className="font-mono text-xs border-l-2 border-term-green/30 pl-3">
+                    <div className="text-term-green-dim">Q{index + 1} // {formatNumber(answer.timeTaken / 1000, SECONDS)}s</div>
+                    <div className="text-term-green">{answer.questionText}</div>
+                    <div className="text-term-cyan">
+                      &gt; {describeChoice(answer)}
+                      <span className={`ml-2 ${weight! > 0 ? 'text-term-green' : weight! < 0 ? 'text-term-red' : 'text-term-green-dim'}`}>[{formatWeight(weight!)}]</span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </Panel>
+      )}
+
+      {answers.length > 0 && (
+        <Panel title={t('charts.timeline')}>
+          <ResponseTimeline answers={answers} selected={selected} flaggedIds={flaggedIds} />
+          <p className="font-mono text-[10px] text-term-green-dim mt-2">
+            {selected ? t('charts.legendSelected', { dimension: selected }) : t('charts.legend')}
+          </p>
+        </Panel>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TerminalButton, Panel, useTranslation } from './TerminalUI';
+import { ArchivedDossier, InterrogationMessage } from '../types';
+import { interrogateDossier } from '../services/geminiService';
+import { INTERROGATION_MAX_QUESTION_LENGTH } from '../services/aiTasks';
+import { saveInterrogation } from '../services/archiveStore';
+import { toAIServiceError } from '../services/providers';
+import { describeChoice } from '../services/timing';
+
+// A reply is split around its [Q#] citations so they can be highlighted
+const CITATION_SPLIT = /(\[Q\d+\])/i;
+const CITATION = /^\[Q\d+\]$/i;
+
+/**
+ * Terminal chat with the profiler about a finished dossier. Replies stream in and cite
+ * answers by number; every completed exchange is saved with the dossier.
+ */
+export const InterrogationPanel: React.FC<{
+  dossier: ArchivedDossier;
+  onSaved: (dossier: ArchivedDossier) => void;
+}> = ({ dossier, onSaved }) => {
+  const { locale, t } = useTranslation();
+  const [messages, setMessages] = useState<InterrogationMessage[]>(dossier.interrogation || []);
+  const [draft, setDraft] = useState('');
+  const [pending, setPending] = useState<InterrogationMessage | null>(null);
+  const [streamed, setStreamed] = useState('');
+  const [error, setError] = useState('');
+  const request = useRef<AbortController | null>(null);
+  const log = useRef<HTMLDivElement>(null);
+
+  useEffect(() => () => request.current?.abort(), []);
+
+  useEffect(() => {
+    log.current?.scrollTo({ top: log.current.scrollHeight });
+  }, [messages, streamed]);
+
+  const send = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = draft.trim();
+    if (!question || pending) return;
+
+    const asked: InterrogationMessage = { role: 'interrogator', text: question, sentAt: new Date().toISOString() };
+    request.current = new AbortController();
+    setPending(asked);
+    setDraft('');
+    setStreamed('');
+    setError('');
+    try {
+      const reply = await interrogateDossier(dossier, messages, question, {
+        signal: request.current.signal,
+        locale,
+        onReply: setStreamed,
+      });
+      const transcript = [...messages, asked, reply];
+      saveInterrogation(dossier.id, transcript);
+      setMessages(transcript);
+      onSaved({ ...dossier, interrogation: transcript });
+    } catch (err) {
+      // The question goes back into the prompt so it can be sent again
+      setDraft(question);
+      const failure = toAIServiceError(err);
+      if (failure.category !== 'cancelled') setError(`${failure.category.toUpperCase()}: ${failure.message}`);
+    } finally {
+      setPending(null);
+      setStreamed('');
+    }
+  };
+
+  const renderText = (text: string) =>
+    text.split(CITATION_SPLIT).map((part, i) =>
+      CITATION.test(part) ? <span key={i} className="text-term-amber">{part.toUpperCase()}</span> : part
+    );
+
+  const renderMessage = (message: InterrogationMessage, key: React.Key) => (
+    <div key={key} className="mb-4">
+      {message.role === 'interrogator' ? (
+        <p className="text-term-cyan whitespace-pre-wrap"><span className="opacity-60">&gt; </span>{message.text}</p>
+      ) : (
+        <>
+          <p className="text-gray-300 whitespace-pre-wrap"><span className="text-term-green">PSYCHE-7 :: </span>{renderText(message.text)}</p>
+          {message.citations && message.citations.length > 0 && (
+            <ul className="mt-2 ml-4 text-[10px] text-term-green-dim space-y-1">
+              {message.citations.map(number => {
+                const answer = dossier.answers[number - 1];
+                return answer && (
+                  <li key={number}>
+                    <span className="text-term-amber">[Q{number}]</span> {answer.questionText} <span className="text-term-green">→ {describeChoice(answer)}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <Panel title={t('interrogation.title')}>
+      <p className="font-mono text-[10px] text-term-green-dim mb-4">{t('interrogation.intro')}</p>
+
+      <div ref={log} className="max-h-96 overflow-y-auto font-mono text-xs mb-4" role="log" aria-live="polite" aria-busy={!!pending}>
+        {messages.length === 0 && !pending && <p className="text-term-green-dim">{t('interrogation.empty')}</p>}
+        {messages.map(renderMessage)}
+        {pending && (
+          <>
+            {renderMessage(pending, 'pending')}
+            <p className="text-gray-300 whitespace-pre-wrap mb-4">
+              <span className="text-term-green">PSYCHE-7 :: </span>{renderText(streamed)}<span className="animate-pulse">_</span>
+            </p>
+          </>
+        )}
+      </div>
+
+      <form onSubmit={send} className="flex gap-3">
+        <label htmlFor="interrogation-question" className="sr-only">{t('interrogation.questionLabel')}</label>
+        <input
+          id="interrogation-question"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          maxLength={INTERROGATION_MAX_QUESTION_LENGTH}
+          disabled={!!pending}
+          placeholder={t('interrogation.placeholder')}
+          className="flex-1 bg-black border-b border-term-green/50 text-term-green font-mono text-xs p-1 focus:outline-none focus:border-term-cyan transition-colors disabled:opacity-50"
+          autoComplete="off"
+        />
+        {pending ? (
+          <TerminalButton type="button" onClick={() => request.current?.abort()} variant="danger" className="!py-2 !text-xs">{t('interrogation.abort')}</TerminalButton>
+        ) : (
+          <TerminalButton type="submit" disabled={!draft.trim()} className="!py-2 !text-xs">{t('interrogation.transmit')}</TerminalButton>
+        )}
+      </form>
+      {error && <p className="font-mono text-xs text-term-red mt-3" role="alert">{error}</p>}
+    </Panel>
+  );
+};
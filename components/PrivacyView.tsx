@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { TerminalButton, Panel, useTranslation } from './TerminalUI';
+import { RetentionPolicy, UserProfile } from '../types';
+import { MessageKey } from '../services/i18n';
+import { listDossiers } from '../services/archiveStore';
+import { loadSession } from '../services/sessionStore';
+import { updateProfile } from '../services/profileStore';
+import { applyRetention, eraseSubjectData, loadRetention, RETENTION_OPTIONS, saveRetention } from '../services/privacyStore';
+
+const SELECT_CLASS = 'bg-black border border-term-green/50 text-term-green font-mono text-xs p-1 focus:outline-none focus:border-term-cyan';
+const INPUT_CLASS = 'w-full bg-black border-b border-term-green/50 text-term-green font-mono text-sm p-1 focus:outline-none focus:border-term-cyan transition-colors';
+
+export const PrivacyView: React.FC<{
+  profile: UserProfile;
+  // Retention applies to the whole terminal, so only a proctor (or anyone, before one exists) may change it
+  canEditRetention: boolean;
+  onProfileChange: (profile: UserProfile) => void;
+  onErased: () => void;
+  onBack: () => void;
+}> = ({ profile, canEditRetention, onProfileChange, onErased, onBack }) => {
+  const { t, formatDate } = useTranslation();
+  const [retention, setRetention] = useState<RetentionPolicy>(loadRetention);
+  const [confirmation, setConfirmation] = useState('');
+  const [erasing, setErasing] = useState(false);
+  const [erased, setErased] = useState('');
+  const [message, setMessage] = useState('');
+
+  const dossierCount = listDossiers(profile.username).length;
+  const hasSession = !!loadSession(profile.username);
+
+  const togglePseudonym = () => {
+    onProfileChange(updateProfile(profile.username, { pseudonymize: !profile.pseudonymize }));
+    setMessage(t(profile.pseudonymize ? 'privacy.codenameSent' : 'privacy.pseudonymSent'));
+  };
+
+  const withdrawConsent = () => {
+    onProfileChange(updateProfile(profile.username, { consent: undefined }));
+    setMessage(t('privacy.consentWithdrawn'));
+  };
+
+  const changeRetention = (field: keyof RetentionPolicy, value: string) =>
+    setRetention(current => ({ ...current, [field]: value === '' ? null : Number(value) }));
+
+  const applyPolicy = () => {
+    saveRetention(retention);
+    const removed = applyRetention(retention);
+    setMessage(t('privacy.retentionSaved', { dossiers: removed.dossiers, sessions: removed.sessions }));
+  };
+
+  const erase = async () => {
+    setErasing(true);
+    try {
+      const result = await eraseSubjectData(profile.username);
+      setErased([
+        t('privacy.erasedRecords', { dossiers: result.dossiers, sessions: result.sessions }),
+        t('privacy.erasedRankings', { count: result.leaderboard.removed }),
+        ...(result.leaderboard.unconfirmed > 0
+          ? [t('privacy.erasedUnconfirmed', { count: result.leaderboard.unconfirmed })]
+          : []),
+      ].join(' '));
+    } finally {
+      setErasing(false);
+    }
+  };
+
+  if (erased) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen w-full max-w-xl mx-auto px-6">
+        <Panel title={t('privacy.erasedTitle')} className="w-full">
+          <p className="font-mono text-sm text-term-green mb-6" role="status">{erased}</p>
+          <TerminalButton onClick={onErased} className="w-full">{t('privacy.returnToIdentification')}</TerminalButton>
+        </Panel>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen w-full max-w-4xl mx-auto px-6 py-12">
+      <div className="flex justify-between items-end mb-6 border-b border-term-green/30 pb-4">
+        <div>
+          <h1 className="font-display text-4xl text-white mb-1">{t('privacy.title')}</h1>
+          <p className="font-mono text-xs text-term-green">{t('privacy.subject', { name: profile.username })}</p>
+        </div>
+        <TerminalButton onClick={onBack}>{t('privacy.return')}</TerminalButton>
+      </div>
+
+      {message && <div className="border border-term-amber/50 p-3 mb-6 font-mono text-xs text-term-amber" role="status">{message}</div>}
+
+      <div className="space-y-8">
+        <Panel title={t('privacy.storedTitle')}>
+          <ul className="font-mono text-xs text-term-green space-y-1">
+            <li>{t('privacy.storedDossiers', { count: dossierCount })}</li>
+            <li>{t(hasSession ? 'privacy.storedSession' : 'privacy.storedNoSession')}</li>
+            <li>{t('privacy.storedProfile')}</li>
+            <li>{t('privacy.storedRankings')}</li>
+          </ul>
+        </Panel>
+
+        <Panel title={t('privacy.providerTitle')}>
+          <p className="font-mono text-xs text-term-green-dim mb-4">{t('privacy.providerNote')}</p>
+          <label className="flex items-center gap-2 font-mono text-xs text-term-green cursor-pointer">
+            <input type="checkbox" checked={!!profile.pseudonymize} onChange={togglePseudonym} className="accent-green-500" />
+            {t('privacy.pseudonymize')}
+          </label>
+        </Panel>
+
+        <Panel title={t('privacy.consentTitle')}>
+          {profile.consent ? (
+            <div className="flex justify-between items-center font-mono text-xs text-term-green">
+              <span>{t('privacy.consentAccepted', { version: profile.consent.version, date: formatDate(profile.consent.acceptedAt) })}</span>
+              <TerminalButton onClick={withdrawConsent} variant="warning" className="!px-3 !py-1 !text-xs">{t('privacy.withdraw')}</TerminalButton>
+            </div>
+          ) : (
+            <p className="font-mono text-xs text-term-green-dim">{t('privacy.consentMissing')}</p>
+          )}
+        </Panel>
+
+        <Panel title={t('privacy.retentionTitle')}>
+          <p className="font-mono text-xs text-term-green-dim mb-4">
+            {t('privacy.retentionNote')}
+            {!canEditRetention && t('privacy.retentionProctorOnly')}
+          </p>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            {([['dossierDays', 'privacy.retentionDossiers'], ['sessionDays', 'privacy.retentionSessions']] as [keyof RetentionPolicy, MessageKey][]).map(([field, label]) => (
+              <div key={field}>
+                <label htmlFor={`retention-${field}`} className="block font-mono text-[10px] text-term-green-dim mb-1">{t(label)}</label>
+                <select
+                  id={`retention-${field}`}
+                  value={retention[field] ?? ''}
+                  onChange={e => changeRetention(field, e.target.value)}
+                  disabled={!canEditRetention}
+                  className={SELECT_CLASS}
+                >
+                  {RETENTION_OPTIONS.map(days => <option key={days ?? 'forever'} value={days ?? ''}>{days === null ? t('privacy.untilDeleted') : t('privacy.days', { days })}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+          {canEditRetention && <TerminalButton onClick={applyPolicy} className="!py-2 !text-xs">{t('privacy.applyRetention')}</TerminalButton>}
+        </Panel>
+
+        <Panel title={t('privacy.eraseTitle')} className="!border-term-red/50">
+          <p className="font-mono text-xs text-term-red/80 mb-4">{t('privacy.eraseWarning')}</p>
+          <label htmlFor="erase-confirmation" className="block font-mono text-[10px] text-term-green-dim mb-1">{t('privacy.eraseConfirm')}</label>
+          <input
+            id="erase-confirmation"
+            value={confirmation}
+            onChange={e => setConfirmation(e.target.value.toUpperCase())}
+            className={`${INPUT_CLASS} mb-4`}
+            autoComplete="off"
+          />
+          <TerminalButton onClick={erase} variant="danger" disabled={confirmation !== profile.username || erasing} className="w-full">
+            {t(erasing ? 'privacy.erasing' : 'privacy.eraseTitle')}
+          </TerminalButton>
+        </Panel>
+      </div>
+    </div>
+  );
+};
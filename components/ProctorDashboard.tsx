@@ -0,0 +1,288 @@
+import React, { useEffect, useState } from 'react';
+import { TerminalButton, Panel, useTranslation } from './TerminalUI';
+import { ArchivedDossier, AssessmentProtocol, LeaderboardEntry, QuestionCount, ReportSection, UserProfile } from '../types';
+import { createInvitation, listInvitations, revokeInvitation, REPORT_SECTION_LABELS } from '../services/invitationStore';
+import { listDossiers } from '../services/archiveStore';
+import { clearSession, listSessions } from '../services/sessionStore';
+import { listProfiles, setProfileRole } from '../services/profileStore';
+import { fetchLeaderboard, removeLeaderboardEntry } from '../services/leaderboardService';
+import { DEFAULT_QUERY, MAX_PAGE_SIZE } from '../services/leaderboardQuery';
+import { MessageKey } from '../services/i18n';
+
+type Tab = 'INVITATIONS' | 'DOSSIERS' | 'SESSIONS' | 'RANKINGS' | 'PROFILES';
+const TABS: Tab[] = ['INVITATIONS', 'DOSSIERS', 'SESSIONS', 'RANKINGS', 'PROFILES'];
+
+const TAB_LABELS: Record<Tab, MessageKey> = {
+  INVITATIONS: 'proctor.tabInvitations',
+  DOSSIERS: 'proctor.tabDossiers',
+  SESSIONS: 'proctor.tabSessions',
+  RANKINGS: 'proctor.tabRankings',
+  PROFILES: 'proctor.tabProfiles',
+};
+
+const INPUT_CLASS = 'w-full bg-black border-b border-term-green/50 text-term-green font-mono text-sm p-1 focus:outline-none focus:border-term-cyan transition-colors';
+const LINK_CLASS = 'font-mono text-xs hover:underline focus:outline-none focus-visible:underline';
+
+// Risk indicators and integrity findings are withheld from subjects unless the proctor opts in
+const DEFAULT_HIDDEN: ReportSection[] = ['riskIndicators', 'integrity'];
+
+export const ProctorDashboard: React.FC<{
+  proctor: UserProfile;
+  protocols: AssessmentProtocol[];
+  onOpenDossier: (dossier: ArchivedDossier) => void;
+  onBack: () => void;
+}> = ({ proctor, protocols, onOpenDossier, onBack }) => {
+  const { t, formatDate } = useTranslation();
+  const [tab, setTab] = useState<Tab>('INVITATIONS');
+  // Bumped after every mutation so the lists below re-read their stores
+  const [revision, setRevision] = useState(0);
+  const refresh = () => setRevision(r => r + 1);
+
+  const [subject, setSubject] = useState('');
+  const [plan, setPlan] = useState<string>(String(QuestionCount.SHORT));
+  const [hidden, setHidden] = useState<ReportSection[]>(DEFAULT_HIDDEN);
+  const [message, setMessage] = useState('');
+
+  const [rankings, setRankings] = useState<LeaderboardEntry[]>([]);
+  const [rankingsOffline, setRankingsOffline] = useState(false);
+  const [adminToken, setAdminToken] = useState('');
+
+  useEffect(() => {
+    if (tab !== 'RANKINGS') return;
+    let cancelled = false;
+    fetchLeaderboard({ ...DEFAULT_QUERY, pageSize: MAX_PAGE_SIZE }).then(page => {
+      if (cancelled) return;
+      setRankings(page.entries);
+      setRankingsOffline(!!page.offline);
+    });
+    return () => { cancelled = true; };
+  }, [tab, revision]);
+
+  const invite = () => {
+    const protocol = protocols.find(p => p.id === plan);
+    const invitation = createInvitation({
+      createdBy: proctor.username,
+      subject: subject.trim().toUpperCase() || undefined,
+      questionCount: protocol ? protocol.questionCount : Number(plan),
+      protocolId: protocol?.id,
+      hiddenSections: hidden,
+    });
+    setMessage(invitation.subject
+      ? t('proctor.invitationIssuedFor', { code: invitation.code, subject: invitation.subject })
+      : t('proctor.invitationIssued', { code: invitation.code }));
+    setSubject('');
+    refresh();
+  };
+
+  const removeEntry = async (entry: LeaderboardEntry) => {
+    const remote = await removeLeaderboardEntry(entry.id, adminToken);
+    setMessage(t(remote ? 'proctor.entryRemoved' : 'proctor.entryRemovedLocally', { name: entry.username }));
+    refresh();
+  };
+
+  const changeRole = (username: string, role: UserProfile['role']) => {
+    try {
+      setProfileRole(username, role);
+      setMessage(t(role === 'proctor' ? 'proctor.nowProctor' : 'proctor.nowSubject', { name: username }));
+    } catch (err: unknown) {
+      setMessage((err instanceof Error ? err.message : String(err)).toUpperCase());
+    }
+    refresh();
+  };
+
+  const planLabel = (count: number, protocolId?: string) =>
+    protocolId ? protocols.find(p => p.id === protocolId)?.name || t('proctor.deletedProtocol') : t('proctor.standardPlan', { count });
+
+  const renderInvitations = () => (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <Panel title={t('proctor.issueTitle')}>
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="invite-subject" className="block font-mono text-[10px] text-term-green-dim mb-1">{t('proctor.subjectCodename')}</label>
+            <input id="invite-subject" value={subject} onChange={e => setSubject(e.target.value.toUpperCase())} className={INPUT_CLASS} />
+          </div>
+          <div>
+            <label htmlFor="invite-plan" className="block font-mono text-[10px] text-term-green-dim mb-1">{t('proctor.protocol')}</label>
+            <select
+              id="invite-plan"
+              value={plan}
+              onChange={e => setPlan(e.target.value)}
+              className="w-full bg-black border border-term-green/50 text-term-green font-mono text-xs p-1 focus:outline-none focus:border-term-cyan"
+            >
+              {[QuestionCount.SHORT, QuestionCount.MEDIUM, QuestionCount.FULL].map(count => (
+                <option key={count} value={String(count)}>{t('proctor.standardOption', { count })}</option>
+              ))}
+              {protocols.map(p => <option key={p.id} value={p.id}>{t('proctor.protocolOption', { name: p.name, count: p.questionCount })}</option>)}
+            </select>
+          </div>
+          <fieldset>
+            <legend className="font-mono text-[10px] text-term-green-dim mb-2">{t('proctor.withhold')}</legend>
+            <div className="grid grid-cols-2 gap-1">
+              {(Object.keys(REPORT_SECTION_LABELS) as ReportSection[]).map(section => (
+                <label key={section} className="flex items-center gap-2 font-mono text-xs text-term-green cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={hidden.includes(section)}
+                    onChange={() => setHidden(h => (h.includes(section) ? h.filter(s => s !== section) : [...h, section]))}
+                    className="accent-green-500"
+                  />
+                  {t(REPORT_SECTION_LABELS[section])}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          <TerminalButton onClick={invite} className="w-full">{t('proctor.issueCode')}</TerminalButton>
+        </div>
+      </Panel>
+      <Panel title={t('proctor.issued')}>
+        <ul className="space-y-2 max-h-96 overflow-y-auto pr-2">
+          {listInvitations().map(i => (
+            <li key={i.code} className="border border-term-green/20 p-2 font-mono text-xs">
+              <div className="flex justify-between">
+                <span className="text-term-cyan text-sm tracking-widest">{i.code}</span>
+                <span className={i.revoked ? 'text-term-red' : i.redeemedBy ? 'text-term-green-dim' : 'text-term-amber'}>
+                  {i.revoked ? t('proctor.revoked') : i.redeemedBy ? t('proctor.usedBy', { name: i.redeemedBy }) : t('proctor.open')}
+                </span>
+              </div>
+              <div className="text-term-green-dim">
+                {t('proctor.invitationSummary', {
+                  subject: i.subject || t('proctor.anySubject'),
+                  plan: planLabel(i.questionCount, i.protocolId),
+                  count: i.hiddenSections.length,
+                })}
+              </div>
+              {!i.revoked && !i.redeemedBy && (
+                <button data-nav onClick={() => { revokeInvitation(i.code); refresh(); }} className={`${LINK_CLASS} text-term-red`}>{t('proctor.revoke')}</button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </Panel>
+    </div>
+  );
+
+  const renderDossiers = () => (
+    <Panel title={t('proctor.allDossiers')}>
+      <div className="space-y-2 max-h-[32rem] overflow-y-auto pr-2">
+        {listDossiers().map(d => (
+          <button
+            key={d.id}
+            data-nav
+            onClick={() => onOpenDossier(d)}
+            className="w-full text-left p-3 border border-term-green/20 hover:border-term-green hover:bg-term-green/10 focus:outline-none focus-visible:border-term-cyan transition-colors font-mono text-sm flex justify-between"
+          >
+            <span className="text-term-green">
+              {d.username}
+              <span className="text-term-green-dim ml-2">{formatDate(d.completedAt)}</span>
+              {d.proctoring && <span className="text-term-amber ml-2">{t('proctor.invite', { code: d.proctoring.invitationCode })}</span>}
+            </span>
+            <span className="text-term-cyan">{d.report.score}/100</span>
+          </button>
+        ))}
+      </div>
+    </Panel>
+  );
+
+  const renderSessions = () => {
+    const sessions = listSessions();
+    return (
+      <Panel title={t('proctor.unfinishedSessions')}>
+        {sessions.length === 0 ? (
+          <p className="font-mono text-xs text-term-green-dim">{t('proctor.noSessions')}</p>
+        ) : (
+          <ul className="space-y-2">
+            {sessions.map(s => (
+              <li key={s.id} className="flex justify-between items-center border border-term-green/20 p-2 font-mono text-xs text-term-green">
+                <span>
+                  {t('proctor.sessionProgress', { name: s.username, answered: s.answers.length, total: s.questions.length })}
+                  <span className="text-term-green-dim ml-2">{formatDate(s.updatedAt)}</span>
+                </span>
+                <button data-nav onClick={() => { clearSession(s.username); refresh(); }} className={`${LINK_CLASS} text-term-red`}>{t('proctor.reset')}</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Panel>
+    );
+  };
+
+  const renderRankings = () => (
+    <Panel title={t(rankingsOffline ? 'proctor.rankingsOffline' : 'proctor.rankings')}>
+      <div className="mb-4">
+        <label htmlFor="admin-token" className="block font-mono text-[10px] text-term-green-dim mb-1">{t('proctor.adminToken')}</label>
+        <input id="admin-token" type="password" value={adminToken} onChange={e => setAdminToken(e.target.value)} className={INPUT_CLASS} autoComplete="off" />
+      </div>
+      <table className="w-full font-mono text-xs">
+        <tbody>
+          {rankings.map((entry, i) => (
+            <tr key={entry.id} className="text-term-green/80">
+              <td className="py-1">{i + 1}</td>
+              <td className="py-1">{entry.username}</td>
+              <td className="py-1">{t('proctor.depth', { count: entry.questionCount })}</td>
+              <td className="py-1 text-right">{entry.score}</td>
+              <td className="py-1 text-right">
+                <button data-nav onClick={() => removeEntry(entry)} className={`${LINK_CLASS} text-term-red`}>{t('proctor.remove')}</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </Panel>
+  );
+
+  const renderProfiles = () => (
+    <Panel title={t('proctor.profiles')}>
+      <ul className="space-y-2">
+        {listProfiles().map(p => (
+          <li key={p.username} className="flex justify-between items-center border border-term-green/20 p-2 font-mono text-xs text-term-green">
+            <span>{p.username} <span className={p.role === 'proctor' ? 'text-term-amber ml-2' : 'text-term-green-dim ml-2'}>{t(p.role === 'proctor' ? 'proctor.roleProctor' : 'proctor.roleSubject')}</span></span>
+            {p.username !== proctor.username && (
+              <button
+                data-nav
+                onClick={() => changeRole(p.username, p.role === 'proctor' ? 'subject' : 'proctor')}
+                className={`${LINK_CLASS} text-term-cyan`}
+              >
+                {t(p.role === 'proctor' ? 'proctor.demote' : 'proctor.promote')}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </Panel>
+  );
+
+  return (
+    <div className="min-h-screen w-full max-w-6xl mx-auto px-6 py-12">
+      <div className="flex justify-between items-end mb-6 border-b border-term-green/30 pb-4">
+        <div>
+          <h1 className="font-display text-4xl text-white mb-1">{t('proctor.title')}</h1>
+          <p className="font-mono text-xs text-term-green">{t('proctor.operator', { name: proctor.username })}</p>
+        </div>
+        <TerminalButton onClick={onBack}>{t('proctor.return')}</TerminalButton>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6 font-mono text-xs" role="tablist">
+        {TABS.map(name => (
+          <button
+            key={name}
+            role="tab"
+            data-nav
+            aria-selected={tab === name}
+            onClick={() => { setTab(name); setMessage(''); }}
+            className={`px-3 py-1 border transition-colors ${tab === name ? 'border-term-green bg-term-green text-black' : 'border-term-green/30 text-term-green hover:border-term-green'}`}
+          >
+            {t(TAB_LABELS[name])}
+          </button>
+        ))}
+      </div>
+
+      {message && <div className="border border-term-amber/50 p-3 mb-6 font-mono text-xs text-term-amber" role="status">{message}</div>}
+
+      {tab === 'INVITATIONS' && renderInvitations()}
+      {tab === 'DOSSIERS' && renderDossiers()}
+      {tab === 'SESSIONS' && renderSessions()}
+      {tab === 'RANKINGS' && renderRankings()}
+      {tab === 'PROFILES' && renderProfiles()}
+    </div>
+  );
+};
@@ -0,0 +1,355 @@
+import React, { useState } from 'react';
+import { TerminalButton, Panel, useTranslation } from './TerminalUI';
+import { AssessmentProtocol, DimensionDefinition, Question, QuestionType, TimeoutAction, TimingSettings } from '../types';
+import { DEFAULT_DIMENSIONS } from '../services/dimensions';
+import { PROTOCOL_LIMITS, validateProtocol } from '../services/protocolStore';
+import { QUESTION_TYPES } from '../services/questionTypes';
+import { TIMEOUT_ACTIONS } from '../services/timing';
+import { MessageKey } from '../services/i18n';
+
+const INPUT_CLASS = 'w-full bg-black border-b border-term-green/50 text-term-green font-mono text-sm p-1 focus:outline-none focus:border-term-cyan transition-colors';
+const LABEL_CLASS = 'block font-mono text-[10px] text-term-green-dim mb-1';
+
+// Default option weights for a fixed question: strongly for, mildly for, mildly against, strongly against
+const FIXED_OPTION_WEIGHTS = [2, 1, -1, -2];
+
+const FORMAT_LABELS: Record<QuestionType, MessageKey> = {
+  'choice': 'builder.formatChoice',
+  'likert': 'builder.formatLikert',
+  'forced-choice': 'builder.formatForced',
+  'ranking': 'builder.formatRanking',
+  'free-text': 'builder.formatText',
+  'scenario': 'builder.formatScenario',
+};
+
+const TIMEOUT_LABELS: Record<TimeoutAction, MessageKey> = {
+  skip: 'builder.timeoutSkip',
+  random: 'builder.timeoutRandom',
+  unanswered: 'builder.timeoutUnanswered',
+};
+
+const emptyProtocol = (): AssessmentProtocol => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name: '',
+    dimensions: DEFAULT_DIMENSIONS.map(d => ({ ...d })),
+    questionCount: 20,
+    persona: '',
+    fixedQuestions: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+const emptyFixedQuestion = (dimension: string): Question => ({
+  id: 0,
+  text: '',
+  dimension,
+  options: ['', '', '', ''],
+  optionWeights: FIXED_OPTION_WEIGHTS.map(weight => ({ [dimension]: weight })),
+});
+
+// Fixed questions only score their own dimension; re-key the weights when it changes
+const retarget = (question: Question, dimension: string): Question => ({
+  ...question,
+  dimension,
+  optionWeights: question.optionWeights.map(w => ({ [dimension]: w[question.dimension] ?? 0 })),
+});
+
+export const ProtocolBuilder: React.FC<{
+  protocols: AssessmentProtocol[];
+  onSave: (protocol: AssessmentProtocol) => void;
+  onDelete: (id: string) => void;
+  onBack: () => void;
+}> = ({ protocols, onSave, onDelete, onBack }) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<AssessmentProtocol>(emptyProtocol);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const update = (changes: Partial<AssessmentProtocol>) => setDraft(d => ({ ...d, ...changes }));
+
+  const updateDimension = (index: number, changes: Partial<DimensionDefinition>) => {
+    const previous = draft.dimensions[index];
+    const dimensions = draft.dimensions.map((d, i) => (i === index ? { ...d, ...changes } : d));
+    // Keep fixed questions pointing at a renamed dimension
+    const fixedQuestions = changes.name !== undefined
+      ? draft.fixedQuestions.map(q => (q.dimension === previous.name ? retarget(q, changes.name!) : q))
+      : draft.fixedQuestions;
+    update({ dimensions, fixedQuestions });
+  };
+
+  const removeDimension = (index: number) => {
+    const removed = draft.dimensions[index];
+    update({
+      dimensions: draft.dimensions.filter((_, i) => i !== index),
+      fixedQuestions: draft.fixedQuestions.filter(q => q.dimension !== removed.name),
+    });
+  };
+
+  // A protocol without either limit is untimed, so its timing is dropped
+  const updateTiming = (changes: Partial<TimingSettings>) => {
+    const timing: TimingSettings = { onTimeout: 'skip', ...draft.timing, ...changes };
+    update({ timing: timing.questionSeconds || timing.sessionMinutes ? timing : undefined });
+  };
+
+  const formats = draft.questionTypes ?? ['choice'];
+
+  // Multiple choice alone is the default, so it is stored as no setting
+  const toggleFormat = (type: QuestionType) => {
+    const next = formats.includes(type) ? formats.filter(f => f !== type) : QUESTION_TYPES.filter(f => f === type || formats.includes(f));
+    update({ questionTypes: next.length === 1 && next[0] === 'choice' ? undefined : next });
+  };
+
+  const optionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+  const updateFixed = (index: number, question: Question) =>
+    update({ fixedQuestions: draft.fixedQuestions.map((q, i) => (i === index ? question : q)) });
+
+  const save = () => {
+    const protocol = {
+      ...draft,
+      name: draft.name.trim(),
+      dimensions: draft.dimensions.map(d => ({ ...d, name: d.name.trim(), description: d.description.trim() })),
+      fixedQuestions: draft.fixedQuestions.map((q, i) => ({ ...q, id: i + 1, text: q.text.trim(), options: q.options.map(o => o.trim()) })),
+    };
+    const problems = validateProtocol(protocol);
+    setIssues(problems);
+    if (problems.length === 0) {
+      onSave(protocol);
+      setDraft(emptyProtocol());
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full max-w-6xl mx-auto px-6 py-12">
+      <div className="flex justify-between items-end mb-8 border-b border-term-green/30 pb-4">
+        <div>
+          <h1 className="font-display text-4xl text-white mb-1">{t('builder.title')}</h1>
+          <p className="font-mono text-xs text-term-green">{t('builder.count', { count: protocols.length })}</p>
+        </div>
+        <TerminalButton onClick={onBack}>{t('builder.return')}</TerminalButton>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <Panel title={t('builder.saved')}>
+          {protocols.length === 0 ? (
+            <p className="font-mono text-xs text-term-green-dim">{t('builder.noneSaved')}</p>
+          ) : (
+            <div className="space-y-2">
+              {protocols.map(p => (
+                <div key={p.id} className="border border-term-green/20 p-3 font-mono text-xs">
+                  <div className="text-term-green mb-1">{p.name}</div>
+                  <div className="text-term-green-dim mb-2">{t('builder.summary', { dimensions: p.dimensions.length, questions: p.questionCount, fixed: p.fixedQuestions.length })}{p.timing && t('builder.timed')}</div>
+                  <div className="flex gap-3">
+                    <button data-nav onClick={() => { setDraft(p); setIssues([]); }} className="text-term-cyan hover:underline focus:outline-none focus-visible:underline">{t('builder.edit')}</button>
+                    <button data-nav onClick={() => onDelete(p.id)} className="text-term-red hover:underline focus:outline-none focus-visible:underline">{t('builder.delete')}</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Panel>
+
+        <div className="lg:col-span-2 space-y-8">
+          <Panel title={protocols.some(p => p.id === draft.id) ? t('builder.editing', { name: draft.name }) : t('builder.new')}>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div className="md:col-span-2">
+                <label htmlFor="protocol-name" className={LABEL_CLASS}>{t('builder.name')}</label>
+                <input
+                  id="protocol-name"
+                  value={draft.name}
+                  maxLength={PROTOCOL_LIMITS.maxNameLength}
+                  onChange={e => update({ name: e.target.value })}
+                  className={INPUT_CLASS}
+                  placeholder={t('builder.namePlaceholder')}
+                />
+              </div>
+              <div>
+                <label htmlFor="protocol-count" className={LABEL_CLASS}>{t('builder.questionCount')}</label>
+                <input
+                  id="protocol-count"
+                  type="number"
+                  min={PROTOCOL_LIMITS.minQuestions}
+                  max={PROTOCOL_LIMITS.maxQuestions}
+                  value={draft.questionCount}
+                  onChange={e => update({ questionCount: Number(e.target.value) })}
+                  className={INPUT_CLASS}
+                />
+              </div>
+            </div>
+            <label htmlFor="protocol-persona" className={LABEL_CLASS}>{t('builder.persona')}</label>
+            <textarea
+              id="protocol-persona"
+              value={draft.persona}
+              onChange={e => update({ persona: e.target.value })}
+              rows={2}
+              className={`${INPUT_CLASS} border resize-none`}
+              placeholder={t('builder.personaPlaceholder')}
+            />
+          </Panel>
+
+          <Panel title={t('builder.formats')}>
+            <p className="font-mono text-[10px] text-term-green-dim mb-4">{t('builder.formatsNote')}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {QUESTION_TYPES.map(type => (
+                <label key={type} className="flex items-center gap-2 font-mono text-xs text-term-green cursor-pointer">
+                  <input type="checkbox" checked={formats.includes(type)} onChange={() => toggleFormat(type)} className="accent-green-500" />
+                  {t(FORMAT_LABELS[type])}
+                </label>
+              ))}
+            </div>
+          </Panel>
+
+          <Panel title={t('builder.timing')}>
+            <p className="font-mono text-[10px] text-term-green-dim mb-4">{t('builder.timingNote')}</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="protocol-question-seconds" className={LABEL_CLASS}>{t('builder.questionSeconds')}</label>
+                <input
+                  id="protocol-question-seconds"
+                  type="number"
+                  min={PROTOCOL_LIMITS.minQuestionSeconds}
+                  max={PROTOCOL_LIMITS.maxQuestionSeconds}
+                  value={draft.timing?.questionSeconds ?? ''}
+                  onChange={e => updateTiming({ questionSeconds: optionalNumber(e.target.value) })}
+                  className={INPUT_CLASS}
+                  placeholder={t('builder.noLimit')}
+                />
+              </div>
+              <div>
+                <label htmlFor="protocol-session-minutes" className={LABEL_CLASS}>{t('builder.sessionMinutes')}</label>
+                <input
+                  id="protocol-session-minutes"
+                  type="number"
+                  min={1}
+                  max={PROTOCOL_LIMITS.maxSessionMinutes}
+                  value={draft.timing?.sessionMinutes ?? ''}
+                  onChange={e => updateTiming({ sessionMinutes: optionalNumber(e.target.value) })}
+                  className={INPUT_CLASS}
+                  placeholder={t('builder.noLimit')}
+                />
+              </div>
+              <div>
+                <label htmlFor="protocol-timeout" className={LABEL_CLASS}>{t('builder.onTimeout')}</label>
+                <select
+                  id="protocol-timeout"
+                  value={draft.timing?.onTimeout ?? 'skip'}
+                  onChange={e => updateTiming({ onTimeout: e.target.value as TimeoutAction })}
+                  disabled={!draft.timing}
+                  className="w-full bg-black border border-term-green/50 text-term-green font-mono text-xs p-1 focus:outline-none focus:border-term-cyan disabled:opacity-50"
+                >
+                  {TIMEOUT_ACTIONS.map(action => <option key={action} value={action}>{t(TIMEOUT_LABELS[action])}</option>)}
+                </select>
+              </div>
+            </div>
+          </Panel>
+
+          <Panel title={t('builder.dimensions')}>
+            <div className="space-y-3">
+              <div className="grid grid-cols-12 gap-2 font-mono text-[10px] text-term-green-dim" aria-hidden="true">
+                <span className="col-span-3">{t('builder.dimensionName')}</span>
+                <span className="col-span-6">{t('builder.dimensionDescription')}</span>
+                <span className="col-span-2">{t('builder.dimensionWeight')}</span>
+              </div>
+              {draft.dimensions.map((d, i) => (
+                <div key={i} className="grid grid-cols-12 gap-2 items-center">
+                  <input aria-label={t('builder.dimensionNameLabel', { number: i + 1 })} value={d.name} onChange={e => updateDimension(i, { name: e.target.value })} className={`${INPUT_CLASS} col-span-3`} />
+                  <input aria-label={t('builder.dimensionDescriptionLabel', { number: i + 1 })} value={d.description} onChange={e => updateDimension(i, { description: e.target.value })} className={`${INPUT_CLASS} col-span-6`} />
+                  <input
+                    aria-label={t('builder.dimensionWeightLabel', { number: i + 1 })}
+                    type="number" step={0.25} min={-1} max={1}
+                    value={d.weight}
+                    onChange={e => updateDimension(i, { weight: Number(e.target.value) })}
+                    className={`${INPUT_CLASS} col-span-2`}
+                  />
+                  <button data-nav onClick={() => removeDimension(i)} aria-label={t('builder.removeDimension', { name: d.name })} className="col-span-1 font-mono text-term-red hover:underline focus:outline-none focus-visible:underline">X</button>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-3 mt-4">
+              <TerminalButton
+                onClick={() => update({ dimensions: [...draft.dimensions, { name: '', description: '', weight: 0.5 }] })}
+                disabled={draft.dimensions.length >= PROTOCOL_LIMITS.maxDimensions}
+              >
+                {t('builder.addDimension')}
+              </TerminalButton>
+              <TerminalButton onClick={() => update({ dimensions: DEFAULT_DIMENSIONS.map(d => ({ ...d })), fixedQuestions: [] })} variant="warning">
+                {t('builder.resetDimensions')}
+              </TerminalButton>
+            </div>
+          </Panel>
+
+          <Panel title={t('builder.fixedQuestions')}>
+            <p className="font-mono text-[10px] text-term-green-dim mb-4">{t('builder.fixedNote')}</p>
+            <div className="space-y-6">
+              {draft.fixedQuestions.map((q, i) => (
+                <div key={i} className="border border-term-green/20 p-3 space-y-2">
+                  <div className="flex gap-2 items-center">
+                    <input aria-label={t('builder.fixedTextLabel', { number: i + 1 })} value={q.text} onChange={e => updateFixed(i, { ...q, text: e.target.value })} className={INPUT_CLASS} placeholder={t('builder.fixedText')} />
+                    <select
+                      aria-label={t('builder.fixedDimensionLabel', { number: i + 1 })}
+                      value={q.dimension}
+                      onChange={e => updateFixed(i, retarget(q, e.target.value))}
+                      className="bg-black border border-term-green/50 text-term-green font-mono text-xs p-1 focus:outline-none focus:border-term-cyan"
+                    >
+                      {draft.dimensions.map(d => <option key={d.name} value={d.name}>{d.name || t('builder.unnamed')}</option>)}
+                    </select>
+                    <button
+                      data-nav
+                      onClick={() => update({ fixedQuestions: draft.fixedQuestions.filter((_, j) => j !== i) })}
+                      aria-label={t('builder.removeFixed', { number: i + 1 })}
+                      className="font-mono text-term-red hover:underline focus:outline-none focus-visible:underline"
+                    >
+                      X
+                    </button>
+                  </div>
+                  {q.options.map((option, j) => (
+                    <div key={j} className="flex gap-2 items-center pl-4">
+                      <span className="font-mono text-xs text-term-green-dim">{String.fromCharCode(65 + j)}</span>
+                      <input
+                        aria-label={t('builder.fixedOptionLabel', { number: i + 1, option: String.fromCharCode(65 + j) })}
+                        value={option}
+                        onChange={e => updateFixed(i, { ...q, options: q.options.map((o, k) => (k === j ? e.target.value : o)) })}
+                        className={INPUT_CLASS}
+                      />
+                      <input
+                        aria-label={t('builder.fixedWeightLabel', { number: i + 1, option: String.fromCharCode(65 + j) })}
+                        type="number" min={-2} max={2} step={1}
+                        value={q.optionWeights[j]?.[q.dimension] ?? 0}
+                        onChange={e => updateFixed(i, {
+                          ...q,
+                          optionWeights: q.optionWeights.map((w, k) => (k === j ? { [q.dimension]: Math.max(-2, Math.min(2, Math.round(Number(e.target.value)))) } : w)),
+                        })}
+                        className={`${INPUT_CLASS} w-16`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="mt-4">
+              <TerminalButton
+                onClick={() => update({ fixedQuestions: [...draft.fixedQuestions, emptyFixedQuestion(draft.dimensions[0]?.name || '')] })}
+                disabled={draft.dimensions.length === 0}
+              >
+                {t('builder.addFixed')}
+              </TerminalButton>
+            </div>
+          </Panel>
+
+          {issues.length > 0 && (
+            <div className="border border-term-red/50 p-3 font-mono text-xs text-term-red space-y-1" role="alert">
+              {issues.map(issue => <div key={issue}>! {issue}</div>)}
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <TerminalButton onClick={save} className="flex-1">{t('builder.save')}</TerminalButton>
+            <TerminalButton onClick={() => { setDraft(emptyProtocol()); setIssues([]); }} variant="danger">{t('builder.clear')}</TerminalButton>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
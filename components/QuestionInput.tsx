@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TerminalButton, useTranslation } from './TerminalUI';
+import { Question } from '../types';
+import { LIKERT_POINTS, questionType, ResponseInput } from '../services/questionTypes';
+
+const FREE_TEXT_MAX_LENGTH = 1000;
+
+const OPTION_CLASS = 'group text-left p-4 border border-term-green/30 hover:bg-term-green/10 hover:border-term-green focus:outline-none focus-visible:border-term-cyan focus-visible:bg-term-green/10 transition-all duration-200 flex items-center';
+
+// A-D and 1-4 both select the matching option; a scale only answers to digits
+const indexForKey = (key: string, count: number, lettersAllowed: boolean) => {
+  const lower = key.toLowerCase();
+  const index = lettersAllowed && lower.length === 1 && lower >= 'a' && lower <= 'z'
+    ? lower.charCodeAt(0) - 97
+    : /^[1-9]$/.test(key) ? Number(key) - 1 : -1;
+  return index < count ? index : -1;
+};
+
+const OptionList: React.FC<{
+  options: string[];
+  labelledBy: string;
+  onSelect: (index: number) => void;
+  columns?: boolean;
+}> = ({ options, labelledBy, onSelect, columns }) => (
+  <div className={`grid grid-cols-1 ${columns ? 'md:grid-cols-2' : ''} gap-4 w-full`} role="group" aria-labelledby={labelledBy}>
+    {options.map((option, idx) => (
+      <button
+        key={idx}
+        onClick={() => onSelect(idx)}
+        aria-keyshortcuts={`${String.fromCharCode(65 + idx)} ${idx + 1}`}
+        className={OPTION_CLASS}
+      >
+        <span className="font-mono text-term-green mr-4 text-lg opacity-50 group-hover:opacity-100">
+          {String.fromCharCode(65 + idx)} //
+        </span>
+        <span className="font-mono text-gray-300 group-hover:text-white text-sm md:text-base">
+          {option}
+        </span>
+      </button>
+    ))}
+  </div>
+);
+
+/**
+ * Answer controls for the current question in its format. Remount it per question (via
+ * `key`) so a half-finished ranking or scenario does not carry over.
+ */
+export const QuestionInput: React.FC<{
+  question: Question;
+  labelledBy: string; // id of the element showing the question text
+  onAnswer: (input: ResponseInput) => void;
+}> = ({ question, labelledBy, onAnswer }) => {
+  const { t } = useTranslation();
+  const type = questionType(question);
+  const [order, setOrder] = useState(() => question.options.map((_, i) => i));
+  const [text, setText] = useState('');
+  // Option chosen at the first step of a scenario, while its follow-up is shown
+  const [firstStep, setFirstStep] = useState<number | null>(null);
+  const followUp = firstStep !== null ? question.followUps?.[firstStep] : undefined;
+
+  const chooseScenario = (index: number) => {
+    if (firstStep !== null) onAnswer({ type: 'scenario', path: [firstStep, index] });
+    else if (question.followUps?.[index]) setFirstStep(index);
+    else onAnswer({ type: 'scenario', path: [index] });
+  };
+
+  const move = (position: number, direction: -1 | 1) => {
+    const next = [...order];
+    [next[position], next[position + direction]] = [next[position + direction], next[position]];
+    setOrder(next);
+  };
+
+  const submitText = () => {
+    if (text.trim()) onAnswer({ type: 'free-text', text: text.trim() });
+  };
+
+  // Letter and digit shortcuts; the listener is registered once and always calls the latest handler
+  const handleKey = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+
+    let index = -1;
+    if (type === 'choice' || type === 'forced-choice') index = indexForKey(e.key, question.options.length, true);
+    else if (type === 'likert') index = indexForKey(e.key, LIKERT_POINTS, false);
+    else if (type === 'scenario') index = indexForKey(e.key, (followUp || question).options.length, true);
+    if (index < 0) return;
+
+    e.preventDefault();
+    if (type === 'likert') onAnswer({ type: 'likert', value: index + 1 });
+    else if (type === 'scenario') chooseScenario(index);
+    else onAnswer(index);
+  };
+  const keyHandler = useRef(handleKey);
+  keyHandler.current = handleKey;
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyHandler.current(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+
+  switch (type) {
+    case 'choice':
+      return <OptionList options={question.options} labelledBy={labelledBy} onSelect={onAnswer} />;
+
+    case 'forced-choice':
+      return (
+        <div className="w-full">
+          <OptionList options={question.options} labelledBy={labelledBy} onSelect={onAnswer} columns />
+          <p className="font-mono text-[10px] text-term-green-dim text-center mt-2" aria-hidden="true">{t('question.or')}</p>
+        </div>
+      );
+
+    case 'likert':
+      return (
+        <div className="w-full" role="group" aria-labelledby={labelledBy}>
+          <div className="grid grid-cols-7 gap-2">
+            {Array.from({ length: LIKERT_POINTS }, (_, i) => (
+              <button
+                key={i}
+                onClick={() => onAnswer({ type: 'likert', value: i + 1 })}
+                aria-label={t('question.likertPoint', { value: i + 1, points: LIKERT_POINTS })}
+                aria-keyshortcuts={String(i + 1)}
+                className={`${OPTION_CLASS} justify-center font-mono text-lg text-term-green`}
+              >
+                {i + 1}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-between mt-2 font-mono text-xs text-gray-300">
+            <span>1 // {question.options[0]}</span>
+            <span>{LIKERT_POINTS} // {question.options[1]}</span>
+          </div>
+        </div>
+      );
+
+    case 'ranking':
+      return (
+        <div className="w-full">
+          <p className="font-mono text-[10px] text-term-green-dim mb-2">{t('question.rankingHint')}</p>
+          <ol className="space-y-2 mb-4" aria-labelledby={labelledBy}>
+            {order.map((optionIndex, position) => (
+              <li key={optionIndex} className="flex items-center gap-3 p-3 border border-term-green/30 font-mono text-sm">
+                <span className="text-term-green opacity-50">{position + 1} //</span>
+                <span className="flex-1 text-gray-300">{question.options[optionIndex]}</span>
+                <button
+                  onClick={() => move(position, -1)}
+                  disabled={position === 0}
+                  aria-label={t('question.moveUp', { option: question.options[optionIndex] })}
+                  className="px-2 text-term-cyan disabled:opacity-20 focus:outline-none focus-visible:ring-1 focus-visible:ring-term-cyan"
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={() => move(position, 1)}
+                  disabled={position === order.length - 1}
+                  aria-label={t('question.moveDown', { option: question.options[optionIndex] })}
+                  className="px-2 text-term-cyan disabled:opacity-20 focus:outline-none focus-visible:ring-1 focus-visible:ring-term-cyan"
+                >
+                  ▼
+                </button>
+              </li>
+            ))}
+          </ol>
+          <TerminalButton onClick={() => onAnswer({ type: 'ranking', order })} className="w-full">{t('question.submitRanking')}</TerminalButton>
+        </div>
+      );
+
+    case 'free-text':
+      return (
+        <div className="w-full">
+          <textarea
+            value={text}
+            onChange={e => setText(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submitText();
+            }}
+            maxLength={FREE_TEXT_MAX_LENGTH}
+            rows={5}
+            aria-labelledby={labelledBy}
+            placeholder={t('question.freeTextPlaceholder')}
+            className="w-full bg-black border border-term-green/50 text-term-green font-mono text-sm p-3 mb-1 resize-none focus:outline-none focus:border-term-cyan"
+            autoFocus
+          />
+          <div className="text-right font-mono text-[10px] text-term-green-dim mb-4">{text.length}/{FREE_TEXT_MAX_LENGTH}</div>
+          <TerminalButton onClick={submitText} disabled={!text.trim()} className="w-full">{t('question.submit')}</TerminalButton>
+        </div>
+      );
+
+    case 'scenario':
+      if (!followUp) {
+        return <OptionList options={question.options} labelledBy={labelledBy} onSelect={chooseScenario} />;
+      }
+      return (
+        <div className="w-full">
+          <div className="border-l-2 border-term-amber/50 pl-4 mb-6" aria-live="polite">
+            <p className="font-mono text-xs text-term-green-dim mb-2">{t('question.scenarioChoice', { option: question.options[firstStep!] })}</p>
+            <h4 id="scenario-follow-up" className="font-display text-lg text-term-cyan tracking-wide leading-relaxed">{followUp.text}</h4>
+          </div>
+          <OptionList options={followUp.options} labelledBy="scenario-follow-up" onSelect={chooseScenario} />
+        </div>
+      );
+  }
+};
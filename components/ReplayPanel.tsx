@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TerminalButton, Panel, useTranslation } from './TerminalUI';
+import { ArchivedDossier, GenerationMetadata, PersonalityReport } from '../types';
+import { replayAnalysis } from '../services/geminiService';
+import { CURRENT_PROMPT_VERSION, PROMPT_VERSIONS } from '../services/prompts';
+import { getAIConfig, toAIServiceError } from '../services/providers';
+import { MessageKey } from '../services/i18n';
+
+const INPUT_CLASS = 'w-full bg-black border-b border-term-green/50 text-term-green font-mono text-xs p-1 focus:outline-none focus:border-term-cyan transition-colors';
+
+type Finding = 'dominantTraits' | 'strengths' | 'weaknesses' | 'riskIndicators';
+
+const FINDINGS: readonly (readonly [Finding, MessageKey])[] = [
+  ['dominantTraits', 'replay.dominantTraits'],
+  ['strengths', 'replay.strengths'],
+  ['weaknesses', 'replay.weaknesses'],
+  ['riskIndicators', 'replay.riskIndicators'],
+];
+
+/**
+ * Re-runs a stored dossier's analysis under a chosen prompt version and model and shows
+ * the narrative next to the original. Scores are computed locally, so only the text differs.
+ */
+export const ReplayPanel: React.FC<{ dossier: ArchivedDossier }> = ({ dossier }) => {
+  const { t } = useTranslation();
+  const original = dossier.report;
+  const [promptVersion, setPromptVersion] = useState(original.generation?.promptVersion || CURRENT_PROMPT_VERSION);
+  const [model, setModel] = useState(original.generation?.model || getAIConfig().model);
+  const [seed, setSeed] = useState(String(original.generation?.seed ?? ''));
+  const [replay, setReplay] = useState<PersonalityReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState('');
+  const request = useRef<AbortController | null>(null);
+
+  useEffect(() => () => request.current?.abort(), []);
+
+  const run = async () => {
+    request.current?.abort();
+    request.current = new AbortController();
+    setRunning(true);
+    setError('');
+    setReplay(null);
+    try {
+      setReplay(await replayAnalysis(dossier, {
+        promptVersion,
+        model: model.trim() || undefined,
+        seed: seed.trim() ? Number(seed) : undefined,
+        signal: request.current.signal,
+      }));
+    } catch (err) {
+      const failure = toAIServiceError(err);
+      if (failure.category !== 'cancelled') setError(`${failure.category.toUpperCase()}: ${failure.message}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const describe = (generation?: GenerationMetadata) =>
+    generation
+      ? t('replay.generation', {
+          provider: generation.provider,
+          model: generation.model,
+          version: generation.promptVersion,
+          temperature: generation.temperature,
+          seed: generation.seed,
+        })
+      : t('replay.unrecorded');
+
+  return (
+    <Panel title={t('replay.title')}>
+      <p className="font-mono text-[10px] text-term-green-dim mb-4">{t('replay.original', { generation: describe(original.generation) })}</p>
+      <div className="grid grid-cols-3 gap-3 mb-4">
+        <div>
+          <label htmlFor="replay-prompt" className="block font-mono text-[10px] text-term-green-dim mb-1">{t('replay.prompt')}</label>
+          <select
+            id="replay-prompt"
+            value={promptVersion}
+            onChange={e => setPromptVersion(e.target.value)}
+            className="w-full bg-black border border-term-green/50 text-term-green font-mono text-xs p-1 focus:outline-none focus:border-term-cyan"
+          >
+            {PROMPT_VERSIONS.map(version => <option key={version} value={version}>{version}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="replay-model" className="block font-mono text-[10px] text-term-green-dim mb-1">{t('replay.model')}</label>
+          <input id="replay-model" value={model} onChange={e => setModel(e.target.value)} className={INPUT_CLASS} />
+        </div>
+        <div>
+          <label htmlFor="replay-seed" className="block font-mono text-[10px] text-term-green-dim mb-1">{t('replay.seed')}</label>
+          <input id="replay-seed" value={seed} onChange={e => setSeed(e.target.value.replace(/\D/g, ''))} className={INPUT_CLASS} inputMode="numeric" placeholder={t('replay.randomSeed')} />
+        </div>
+      </div>
+      <div className="flex gap-3">
+        <TerminalButton onClick={run} disabled={running} className="flex-1 !py-2 !text-xs">
+          {t(running ? 'replay.running' : 'replay.run')}
+        </TerminalButton>
+        {running && <TerminalButton onClick={() => request.current?.abort()} variant="danger" className="!py-2 !text-xs">{t('replay.abort')}</TerminalButton>}
+      </div>
+      {error && <p className="font-mono text-xs text-term-red mt-3" role="alert">{error}</p>}
+
+      {replay && (
+        <div className="mt-6 space-y-4" aria-live="polite">
+          <p className="font-mono text-[10px] text-term-cyan">{t('replay.result', { generation: describe(replay.generation) })}</p>
+          {FINDINGS.map(([key, label]) => (
+            <div key={key}>
+              <h4 className="font-mono text-[10px] text-term-green-dim mb-1">{t(label)}</h4>
+              <div className="grid grid-cols-2 gap-4 font-mono text-xs">
+                {[original, replay].map((report, i) => (
+                  <ul key={i} className={i === 0 ? 'text-term-green/70' : 'text-term-cyan'}>
+                    {report[key].map((item, j) => <li key={j}>- {item}</li>)}
+                  </ul>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Panel>
+  );
+};
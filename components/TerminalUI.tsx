@@ -1,14 +1,46 @@
 import React from 'react';
+import { Locale } from '../types';
+import { formatDate, formatNumber, MessageKey, translate } from '../services/i18n';
+
+// True when animations should be skipped (OS preference or the in-app toggle)
+export const ReducedMotionContext = React.createContext(false);
+
+export const useReducedMotion = () => React.useContext(ReducedMotionContext);
+
+// Language selected at AUTH
+export const LocaleContext = React.createContext<Locale>('en');
+
+export const useTranslation = () => {
+  const locale = React.useContext(LocaleContext);
+  return {
+    locale,
+    t: (key: MessageKey, params?: Record<string, string | number>) => translate(locale, key, params),
+    formatDate: (iso: string, options?: Intl.DateTimeFormatOptions) => formatDate(locale, iso, options),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(locale, value, options),
+  };
+};
+
+// Moves focus between elements marked with data-nav, wrapping at either end
+export const moveNavFocus = (direction: 1 | -1) => {
+  const items = Array.from(document.querySelectorAll<HTMLElement>('[data-nav]'))
+    .filter(el => !(el as HTMLButtonElement).disabled && el.offsetParent !== null);
+  if (items.length === 0) return;
+  const current = items.indexOf(document.activeElement as HTMLElement);
+  const next = current === -1 ? (direction === 1 ? 0 : items.length - 1) : (current + direction + items.length) % items.length;
+  items[next].focus();
+};
 
 export const TerminalButton: React.FC<{
-  onClick: () => void;
+  onClick?: () => void;
   children: React.ReactNode;
   disabled?: boolean;
   variant?: 'primary' | 'danger' | 'warning';
   className?: string;
-}> = ({ onClick, children, disabled, variant = 'primary', className = '' }) => {
+  type?: 'button' | 'submit';
+  shortcut?: string; // announced via aria-keyshortcuts
+}> = ({ onClick, children, disabled, variant = 'primary', className = '', type = 'button', shortcut }) => {
   
-  const baseStyles = "relative px-6 py-3 font-display uppercase tracking-widest text-sm transition-all duration-100 border focus:outline-none group";
+  const baseStyles = "relative px-6 py-3 font-display uppercase tracking-widest text-sm transition-all duration-100 border focus:outline-none focus-visible:ring-2 focus-visible:ring-term-cyan focus-visible:ring-offset-2 focus-visible:ring-offset-black group";
   
   const variants = {
     primary: "border-term-green text-term-green hover:bg-term-green hover:text-black disabled:border-term-green-dim disabled:text-term-green-dim",
@@ -18,8 +50,11 @@ export const TerminalButton: React.FC<{
 
   return (
     <button 
+      type={type}
       onClick={onClick} 
       disabled={disabled}
+      aria-keyshortcuts={shortcut}
+      data-nav
       className={`${baseStyles} ${variants[variant]} ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'} ${className}`}
     >
       <span className="relative z-10">{children}</span>
@@ -45,25 +80,44 @@ export const Panel: React.FC<{ children: React.ReactNode; title?: string; classN
   </div>
 );
 
-export const LoadingBar: React.FC<{ progress: number; label?: string }> = ({ progress, label }) => (
-  <div className="w-full">
-    <div className="flex justify-between text-xs font-mono text-term-green mb-1">
-      <span>{label || 'PROCESSING'}</span>
-      <span>{Math.round(progress)}%</span>
-    </div>
-    <div className="h-2 w-full border border-term-green/50 p-[1px]">
-      <div 
-        className="h-full bg-term-green transition-all duration-300 ease-out" 
-        style={{ width: `${Math.min(100, Math.max(0, progress))}%` }}
-      />
+export const LoadingBar: React.FC<{ progress: number; label?: string }> = ({ progress, label }) => {
+  const { t } = useTranslation();
+  const text = label || t('loading.default');
+
+  return (
+    <div className="w-full">
+      <div className="flex justify-between text-xs font-mono text-term-green mb-1">
+        <span>{text}</span>
+        <span aria-hidden="true">{Math.round(progress)}%</span>
+      </div>
+      <div
+        className="h-2 w-full border border-term-green/50 p-[1px]"
+        role="progressbar"
+        aria-label={text}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(progress)}
+      >
+        <div 
+          className="h-full bg-term-green transition-all duration-300 ease-out" 
+          style={{ width: `${Math.min(100, Math.max(0, progress))}%` }}
+        />
+      </div>
     </div>
-  </div>
-);
+  );
+};
 
 export const TypewriterText: React.FC<{ text: string; speed?: number; onComplete?: () => void }> = ({ text, speed = 20, onComplete }) => {
   const [displayed, setDisplayed] = React.useState('');
+  const reducedMotion = useReducedMotion();
   
   React.useEffect(() => {
+    if (reducedMotion) {
+      setDisplayed(text);
+      if (onComplete) onComplete();
+      return;
+    }
+
     let index = 0;
     setDisplayed('');
     
@@ -78,7 +132,13 @@ export const TypewriterText: React.FC<{ text: string; speed?: number; onComplete
     }, speed);
     
     return () => clearInterval(interval);
-  }, [text, speed, onComplete]);
+  }, [text, speed, onComplete, reducedMotion]);
 
-  return <span>{displayed}</span>;
+  // Screen readers get the full line once instead of one character at a time
+  return (
+    <span role="status" aria-live="polite">
+      <span className="sr-only">{text}</span>
+      <span aria-hidden="true">{displayed}</span>
+    </span>
+  );
 };
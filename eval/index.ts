@@ -0,0 +1,195 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { AssessmentProtocol, QuestionSource, QuestionType } from "../types";
+import { DEFAULT_DIMENSIONS } from "../services/dimensions";
+import { analyzePersonality, generationMetadata } from "../services/geminiService";
+import { CURRENT_PROMPT_VERSION } from "../services/prompts";
+import { getAIProvider, setAIProviderHook } from "../services/providers";
+import { streamQuestionSet } from "../services/questionPipeline";
+import { QUESTION_TYPES } from "../services/questionTypes";
+import { findRegressions, RespondentSummary, RunResult, summarizeRespondent, Thresholds } from "./metrics";
+import { createRecording, loadRecording, recordingProvider, replayProvider, saveRecording } from "./recording";
+import { answerQuestions, createRespondents } from "./respondents";
+
+const USAGE = `Usage: npm run eval -- [options]
+
+  --provider <name>     gemini, openai, mock or proxy (default: AI_PROVIDER, else gemini)
+  --model <name>        overrides AI_MODEL
+  --prompt <version>    prompt template version (default: ${CURRENT_PROMPT_VERSION})
+  --runs <n>            question sets to generate (default: 5)
+  --questions <n>       questions per set (default: 20)
+  --source <source>     generated, mixed or bank (default: generated)
+  --formats <list>      comma-separated formats generated questions may use (default: choice)
+  --respondents <list>  comma-separated respondent names (default: all)
+  --seed <n>            base seed; the same seed repeats the same run (default: 1)
+  --record <file>       save every provider response to <file>
+  --replay <file>       answer from a recording instead of a provider
+  --out <file>          write the report as JSON
+  --baseline <file>     compare with a report written by --out
+  --max-stddev <n>      highest allowed score std dev (default: 5)
+  --min-agreement <n>   lowest allowed dimension agreement, 0-1 (default: 0.8)
+  --max-drift <n>       score points allowed to move from the baseline (default: 3)`;
+
+// Run seeds are spaced apart so per-batch seed offsets never overlap between runs
+const RUN_SEED_SPACING = 1000;
+
+const SOURCES: Record<string, QuestionSource> = {
+  generated: QuestionSource.GENERATED,
+  mixed: QuestionSource.MIXED,
+  bank: QuestionSource.BANK,
+};
+
+const { values } = parseArgs({
+  options: {
+    provider: { type: "string" },
+    model: { type: "string" },
+    prompt: { type: "string", default: CURRENT_PROMPT_VERSION },
+    runs: { type: "string", default: "5" },
+    questions: { type: "string", default: "20" },
+    source: { type: "string", default: "generated" },
+    formats: { type: "string" },
+    respondents: { type: "string" },
+    seed: { type: "string", default: "1" },
+    record: { type: "string" },
+    replay: { type: "string" },
+    out: { type: "string" },
+    baseline: { type: "string" },
+    "max-stddev": { type: "string", default: "5" },
+    "min-agreement": { type: "string", default: "0.8" },
+    "max-drift": { type: "string", default: "3" },
+    help: { type: "boolean", short: "h" },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const positiveInt = (name: string, value: string) => {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fail(`--${name} must be a positive integer.`);
+};
+
+const number = (name: string, value: string) => {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fail(`--${name} must be a number.`);
+};
+
+const main = async () => {
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (values.record && values.replay) fail("--record and --replay cannot be combined.");
+
+  if (values.provider) process.env.AI_PROVIDER = values.provider;
+  if (values.model) process.env.AI_MODEL = values.model;
+  // As on the server: .env files name the Gemini key GEMINI_API_KEY
+  process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+
+  const runs = positiveInt("runs", values.runs);
+  const count = positiveInt("questions", values.questions);
+  const seed = number("seed", values.seed);
+  const source = SOURCES[values.source] ?? fail(`Unknown --source "${values.source}".`);
+  const promptVersion = values.prompt;
+  const formats = values.formats?.split(",").map(name => name.trim()).filter(Boolean).map(name =>
+    QUESTION_TYPES.includes(name as QuestionType) ? (name as QuestionType) : fail(`Unknown format "${name}". Available: ${QUESTION_TYPES.join(", ")}.`)
+  );
+  // Formats reach generation through a protocol; this one keeps the standard dimensions and voice
+  const protocol: AssessmentProtocol | undefined = formats && {
+    id: "eval",
+    name: "Evaluation",
+    dimensions: DEFAULT_DIMENSIONS,
+    questionCount: count,
+    persona: "",
+    fixedQuestions: [],
+    questionTypes: formats,
+    createdAt: new Date(0).toISOString(),
+    updatedAt: new Date(0).toISOString(),
+  };
+  const thresholds: Thresholds = {
+    maxScoreStdDev: number("max-stddev", values["max-stddev"]),
+    minDimensionAgreement: number("min-agreement", values["min-agreement"]),
+    maxDrift: number("max-drift", values["max-drift"]),
+  };
+
+  const available = createRespondents(DEFAULT_DIMENSIONS, formats?.length ?? 1);
+  const requested = values.respondents?.split(",").map(name => name.trim()).filter(Boolean);
+  const respondents = requested
+    ? requested.map(name => available.find(r => r.name === name) ?? fail(`Unknown respondent "${name}". Available: ${available.map(r => r.name).join(", ")}.`))
+    : available;
+
+  const recording = values.record ? createRecording(getAIProvider()) : undefined;
+  if (recording) {
+    setAIProviderHook(provider => recordingProvider(provider, recording));
+  } else if (values.replay) {
+    const replay = await loadRecording(values.replay);
+    setAIProviderHook(() => replayProvider(replay));
+  }
+
+  const generation = generationMetadata("analyzePersonality", { seed, promptVersion });
+  console.log(`Evaluating ${respondents.length} respondent(s) over ${runs} run(s) of ${count} ${values.source} questions`);
+  console.log(`Backend: ${generation.provider}/${generation.model}, prompt ${generation.promptVersion}${values.replay ? ` (replaying ${values.replay})` : ""}\n`);
+
+  const results: RunResult[] = [];
+  for (let run = 0; run < runs; run++) {
+    const runSeed = seed + run * RUN_SEED_SPACING;
+    const questions = await streamQuestionSet(count, source, { onQuestions: () => {}, onProgress: () => {} }, { seed: runSeed, promptVersion, protocol });
+    if (questions.length < count) console.warn(`Run ${run + 1}: only ${questions.length} of ${count} questions were generated.`);
+
+    for (const [index, respondent] of respondents.entries()) {
+      // Seeded per run as well, so chance-driven respondents answer each run differently
+      const answers = answerQuestions(respondent, questions, runSeed + index);
+      const report = await analyzePersonality(answers, respondent.name.toUpperCase(), { seed: runSeed, promptVersion });
+      results.push({
+        respondent: respondent.name,
+        run,
+        score: report.score,
+        dimensionScores: report.dimensionScores,
+        dominantTraits: report.dominantTraits,
+        integrityScore: report.integrity?.integrityScore ?? 100,
+        flagged: (report.integrity?.flags.length ?? 0) > 0,
+      });
+    }
+    console.log(`Run ${run + 1}/${runs} complete.`);
+  }
+
+  if (recording && values.record) {
+    await saveRecording(values.record, recording);
+    console.log(`Recorded ${Object.keys(recording.responses).length} response(s) to ${values.record}.`);
+  }
+
+  const summaries = respondents.map(r => summarizeRespondent(r.name, results.filter(result => result.respondent === r.name), r));
+  console.table(Object.fromEntries(summaries.map(({ respondent, expectFlagged, expectStable, ...rest }) => [respondent, rest])));
+
+  const baseline: RespondentSummary[] | undefined = values.baseline
+    ? JSON.parse(await readFile(values.baseline, "utf8")).summaries
+    : undefined;
+  const failures = findRegressions(summaries, thresholds, baseline);
+
+  if (values.out) {
+    await writeFile(values.out, JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      generation,
+      options: { runs, questions: count, source: values.source, seed },
+      thresholds,
+      summaries,
+      results,
+      failures,
+    }, null, 2));
+    console.log(`Report written to ${values.out}.`);
+  }
+
+  if (failures.length > 0) {
+    console.error(`\nFAILED (${failures.length}):\n${failures.map(f => `  - ${f}`).join("\n")}`);
+    process.exitCode = 1;
+  } else {
+    console.log("\nPASSED");
+  }
+};
+
+main().catch(error => {
+  console.error(`Evaluation failed: ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 2;
+});
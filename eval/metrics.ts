@@ -0,0 +1,128 @@
+// One respondent's result in one run of the harness
+export interface RunResult {
+  respondent: string;
+  run: number;
+  score: number;
+  dimensionScores: Record<string, number>;
+  dominantTraits: string[];
+  integrityScore: number;
+  flagged: boolean; // the integrity checks raised at least one flag
+}
+
+export interface RespondentSummary {
+  respondent: string;
+  runs: number;
+  meanScore: number;
+  scoreStdDev: number;
+  minScore: number;
+  maxScore: number;
+  dimensionAgreement: number; // 0-1, share of runs placing each dimension in its most common band
+  traitAgreement: number; // 0-1, mean pairwise overlap of dominant traits between runs
+  flagRate: number; // 0-1
+  expectFlagged?: boolean;
+  expectStable?: boolean;
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+const stdDev = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+};
+
+// Same cut-offs the analysis uses when describing a dimension as expressed or rejected
+const band = (score: number) => (score >= 60 ? "high" : score <= 40 ? "low" : "mid");
+
+const dimensionAgreement = (results: RunResult[]) => {
+  const names = Object.keys(results[0]?.dimensionScores || {});
+  if (names.length === 0) return 1;
+
+  return mean(names.map(name => {
+    const counts: Record<string, number> = {};
+    results.forEach(r => {
+      const b = band(r.dimensionScores[name] ?? 50);
+      counts[b] = (counts[b] || 0) + 1;
+    });
+    return Math.max(...Object.values(counts)) / results.length;
+  }));
+};
+
+const jaccard = (a: string[], b: string[]) => {
+  const left = new Set(a.map(s => s.trim().toLowerCase()));
+  const right = new Set(b.map(s => s.trim().toLowerCase()));
+  const shared = [...left].filter(s => right.has(s)).length;
+  const union = left.size + right.size - shared;
+  return union === 0 ? 1 : shared / union;
+};
+
+const traitAgreement = (results: RunResult[]) => {
+  const pairs: number[] = [];
+  for (let i = 0; i < results.length; i++) {
+    for (let j = i + 1; j < results.length; j++) pairs.push(jaccard(results[i].dominantTraits, results[j].dominantTraits));
+  }
+  return pairs.length ? mean(pairs) : 1;
+};
+
+export const summarizeRespondent = (
+  respondent: string,
+  results: RunResult[],
+  { expectFlagged, expectStable }: { expectFlagged?: boolean; expectStable?: boolean } = {}
+): RespondentSummary => {
+  const scores = results.map(r => r.score);
+  return {
+    respondent,
+    runs: results.length,
+    meanScore: round(mean(scores)),
+    scoreStdDev: round(stdDev(scores)),
+    minScore: Math.min(...scores),
+    maxScore: Math.max(...scores),
+    dimensionAgreement: round(dimensionAgreement(results)),
+    traitAgreement: round(traitAgreement(results)),
+    flagRate: round(results.filter(r => r.flagged).length / Math.max(1, results.length)),
+    expectFlagged,
+    expectStable,
+  };
+};
+
+export interface Thresholds {
+  maxScoreStdDev: number;
+  minDimensionAgreement: number;
+  maxDrift: number; // points the mean score may move from the baseline
+}
+
+/**
+ * Describes every way `summaries` fall short of the thresholds or regress from `baseline`.
+ * Stability and drift limits apply only to respondents expected to be stable; positional
+ * and random answering varies with the question set by design.
+ */
+export const findRegressions = (summaries: RespondentSummary[], thresholds: Thresholds, baseline?: RespondentSummary[]) => {
+  const failures: string[] = [];
+
+  summaries.forEach(s => {
+    if (s.expectStable && s.scoreStdDev > thresholds.maxScoreStdDev) {
+      failures.push(`${s.respondent}: score std dev ${s.scoreStdDev} exceeds ${thresholds.maxScoreStdDev}.`);
+    }
+    if (s.expectStable && s.dimensionAgreement < thresholds.minDimensionAgreement) {
+      failures.push(`${s.respondent}: dimension agreement ${s.dimensionAgreement} is below ${thresholds.minDimensionAgreement}.`);
+    }
+    if (s.expectFlagged === true && s.flagRate < 1) {
+      failures.push(`${s.respondent}: integrity checks missed ${Math.round((1 - s.flagRate) * s.runs)} of ${s.runs} run(s).`);
+    }
+    if (s.expectFlagged === false && s.flagRate > 0) {
+      failures.push(`${s.respondent}: integrity checks flagged ${Math.round(s.flagRate * s.runs)} of ${s.runs} run(s).`);
+    }
+
+    const previous = baseline?.find(b => b.respondent === s.respondent);
+    if (!s.expectStable || !previous) return;
+    if (Math.abs(s.meanScore - previous.meanScore) > thresholds.maxDrift) {
+      failures.push(`${s.respondent}: mean score drifted from ${previous.meanScore} to ${s.meanScore}.`);
+    }
+    if (s.scoreStdDev - previous.scoreStdDev > thresholds.maxDrift) {
+      failures.push(`${s.respondent}: score std dev rose from ${previous.scoreStdDev} to ${s.scoreStdDev}.`);
+    }
+  });
+
+  return failures;
+};
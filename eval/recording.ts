@@ -0,0 +1,66 @@
+import { createHash } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import { AIProvider, AIRequest, AIServiceError, ProviderName } from "../services/providers";
+
+// Raw provider responses keyed by request, so a run can be repeated offline
+export interface Recording {
+  provider: ProviderName;
+  model: string;
+  recordedAt: string;
+  responses: Record<string, string>;
+}
+
+// Identical prompts with the same seed map to the same response
+const requestKey = (request: AIRequest) =>
+  createHash("sha256")
+    .update([request.task, request.seed ?? "", request.systemInstruction, request.contents].join("\n"))
+    .digest("hex");
+
+export const createRecording = (provider: AIProvider): Recording => ({
+  provider: provider.name,
+  model: provider.model,
+  recordedAt: new Date().toISOString(),
+  responses: {},
+});
+
+export const loadRecording = async (filePath: string): Promise<Recording> => JSON.parse(await readFile(filePath, "utf8"));
+
+export const saveRecording = (filePath: string, recording: Recording) =>
+  writeFile(filePath, JSON.stringify(recording, null, 2));
+
+// Passes requests through to `provider`, storing every response in `recording`
+export const recordingProvider = (provider: AIProvider, recording: Recording): AIProvider => ({
+  ...provider,
+  generateJSON: async request => {
+    const rawText = await provider.generateJSON(request);
+    recording.responses[requestKey(request)] = rawText;
+    return rawText;
+  },
+  streamJSON: async (request, onText) => {
+    const rawText = await provider.streamJSON(request, onText);
+    recording.responses[requestKey(request)] = rawText;
+    return rawText;
+  },
+});
+
+// Answers from `recording` only. An unrecorded request fails: a prompt, seed or setting has changed.
+export const replayProvider = (recording: Recording): AIProvider => {
+  const lookup = (request: AIRequest) => {
+    const rawText = recording.responses[requestKey(request)];
+    if (rawText === undefined) {
+      throw new AIServiceError("malformed", `No recorded response for this ${request.task} request; re-record with --record.`);
+    }
+    return rawText;
+  };
+
+  return {
+    name: recording.provider,
+    model: recording.model,
+    generateJSON: async request => lookup(request),
+    streamJSON: async (request, onText) => {
+      const rawText = lookup(request);
+      onText(rawText);
+      return rawText;
+    },
+  };
+};
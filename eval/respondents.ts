@@ -0,0 +1,103 @@
+import { Answer, DimensionDefinition, Question } from "../types";
+import { createRandom } from "../services/questionBank";
+import { buildAnswer, LIKERT_POINTS, questionType, ResponseInput } from "../services/questionTypes";
+
+export interface SyntheticRespondent {
+  name: string;
+  description: string;
+  // Whether the integrity checks should flag every run; unset when either outcome is acceptable
+  expectFlagged?: boolean;
+  // Answers by a consistent profile rather than by position or chance, so its scores should hold across question sets
+  expectStable?: boolean;
+  // Index of the preferred option; other formats are answered from it (see toResponse)
+  choose: (question: Question, index: number, random: () => number) => number;
+  // Milliseconds spent on a question of `words` words
+  pace: (words: number, random: () => number) => number;
+}
+
+// Reads at roughly four words a second, then deliberates for a few seconds
+const deliberate = (words: number, random: () => number) => Math.round(words * 250 + 3000 + random() * 4000);
+
+// Picks the option that contributes most (direction 1) or least (-1) to the stability score
+const byStability = (question: Question, dimensions: DimensionDefinition[], direction: 1 | -1) => {
+  const value = (index: number) =>
+    direction * dimensions.reduce((sum, d) => sum + d.weight * (question.optionWeights?.[index]?.[d.name] ?? 0), 0);
+  return question.options.reduce((best, _, index) => (value(index) > value(best) ? index : best), 0);
+};
+
+// Straight-lining is counted within one format, so a set that interleaves formats never forms a run
+export const createRespondents = (dimensions: DimensionDefinition[], formatCount = 1): SyntheticRespondent[] => [
+  {
+    name: "fixed-a",
+    description: "Always selects the first option.",
+    ...(formatCount === 1 && { expectFlagged: true }),
+    choose: () => 0,
+    pace: deliberate,
+  },
+  {
+    name: "cycle",
+    description: "Cycles through the options in order (A, B, C, D, A...).",
+    choose: (question, index) => index % question.options.length,
+    pace: deliberate,
+  },
+  {
+    name: "random",
+    description: "Selects options uniformly at random.",
+    choose: (question, _, random) => Math.floor(random() * question.options.length),
+    pace: deliberate,
+  },
+  {
+    name: "ideal-agent",
+    description: "Always selects the option that maximises stability.",
+    expectStable: true,
+    choose: question => byStability(question, dimensions, 1),
+    pace: deliberate,
+  },
+  {
+    name: "volatile-agent",
+    description: "Always selects the option that minimises stability.",
+    expectStable: true,
+    choose: question => byStability(question, dimensions, -1),
+    pace: deliberate,
+  },
+  {
+    name: "speeder",
+    description: "Answers at random in under a second and a half.",
+    expectFlagged: true,
+    choose: (question, _, random) => Math.floor(random() * question.options.length),
+    pace: (_, random) => Math.round(400 + random() * 1000),
+  },
+];
+
+// Free text is not scored locally, so every respondent writes the same answer
+const FREE_TEXT_ANSWER = "I would assess the situation first and then act on what I found.";
+
+/**
+ * Answers `question` in its format from the respondent's preferred option: the matching
+ * likert anchor, that option ranked first, or that option followed by the preferred follow-up.
+ */
+const toResponse = (respondent: SyntheticRespondent, question: Question, index: number, random: () => number): ResponseInput => {
+  if (questionType(question) === "free-text") return { type: "free-text", text: FREE_TEXT_ANSWER };
+  const chosen = respondent.choose(question, index, random);
+  switch (questionType(question)) {
+    case "likert":
+      return { type: "likert", value: chosen === 0 ? 1 : LIKERT_POINTS };
+    case "ranking":
+      return { type: "ranking", order: [chosen, ...question.options.map((_, i) => i).filter(i => i !== chosen)] };
+    case "scenario": {
+      const followUp = question.followUps?.[chosen];
+      return { type: "scenario", path: followUp ? [chosen, respondent.choose({ ...question, ...followUp }, index, random)] : [chosen] };
+    }
+    default:
+      return chosen;
+  }
+};
+
+// Builds answers the way the assessment screen records them
+export const answerQuestions = (respondent: SyntheticRespondent, questions: Question[], seed: number): Answer[] => {
+  const random = createRandom(seed);
+  return questions.map((question, index) => {
+    const answer = buildAnswer(question, toResponse(respondent, question, index, random), 0);
+    return { ...answer, timeTaken: respondent.pace(`${question.text} ${answer.selectedOption}`.split(/\s+/).length, random) };
+  });
+};
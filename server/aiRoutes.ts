@@ -0,0 +1,171 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import {
+  AIConfig,
+  AIErrorCategory,
+  AIServiceError,
+  AITask,
+  DEFAULT_REQUEST_POLICY,
+  getAIProvider,
+  ProxyRequestBody,
+  ProxyStreamEvent,
+  runAIRequest,
+  toAIServiceError,
+} from "../services/providers";
+import { AITaskRequest, buildAIRequest } from "../services/aiTasks";
+import { getPromptTemplate, PROMPT_VERSIONS } from "../services/prompts";
+import { HttpError, readJson, sendJson } from "./http";
+import { RateLimiter } from "./rateLimiter";
+import { readTaskRequest } from "./taskInput";
+import { UsageLog } from "./usageLog";
+
+export const AI_PATH = "/api/ai";
+
+const MAX_BODY_BYTES = Number(process.env.AI_MAX_BODY_BYTES) || 512 * 1024;
+
+// Models a client may ask for besides the configured one (e.g. for replays)
+const ALLOWED_MODELS = (process.env.AI_ALLOWED_MODELS || "").split(",").map(m => m.trim()).filter(Boolean);
+
+// Behind a reverse proxy the client address arrives in X-Forwarded-For
+const TRUST_PROXY = process.env.AI_TRUST_PROXY === "1";
+
+const TASKS: AITask[] = ["generateQuestions", "analyzePersonality", "analyzeCompatibility", "interrogate"];
+
+// The browser retries; the server makes a single attempt per request
+const SINGLE_ATTEMPT = { ...DEFAULT_REQUEST_POLICY, maxAttempts: 1 };
+
+const STATUS_FOR_CATEGORY: Record<AIErrorCategory, number> = {
+  auth: 502,
+  quota: 429,
+  server: 502,
+  network: 502,
+  timeout: 504,
+  cancelled: 499,
+  malformed: 502,
+};
+
+export interface AIRouteContext {
+  upstream: AIConfig | null; // null when the server has no usable backend
+  limiter: RateLimiter;
+  usage: UsageLog;
+}
+
+// Rate limits apply per client address; profiles live in the browser, so there is no server-side identity
+const clientKey = (req: IncomingMessage) => {
+  const forwarded = TRUST_PROXY ? String(req.headers["x-forwarded-for"] || "").split(",")[0].trim() : "";
+  return forwarded || req.socket.remoteAddress || "unknown";
+};
+
+const BODY_FIELDS = ["task", "input", "promptVersion", "seed", "model"];
+
+// Prompts, schemas and sampling settings are built here from the task input, never taken from the client
+const validateBody = (body: Partial<ProxyRequestBody>, upstream: AIConfig): { request?: AITaskRequest; problems: string[] } => {
+  const problems: string[] = [];
+  Object.keys(body).filter(field => !BODY_FIELDS.includes(field)).forEach(field => problems.push(`${field} is not accepted`));
+  if (!PROMPT_VERSIONS.includes(body.promptVersion as string)) problems.push("promptVersion is not supported");
+  if (body.seed !== undefined && !Number.isInteger(body.seed)) problems.push("seed must be an integer");
+  if (body.model !== undefined && body.model !== upstream.model && !ALLOWED_MODELS.includes(body.model)) {
+    problems.push(`model "${body.model}" is not enabled on this server`);
+  }
+  if (!TASKS.includes(body.task as AITask)) {
+    problems.push("task is not supported");
+    return { problems };
+  }
+  if (body.task === "interrogate" && PROMPT_VERSIONS.includes(body.promptVersion as string) && !getPromptTemplate(body.promptVersion).interrogate) {
+    problems.push(`prompt version ${body.promptVersion} does not support interrogation`);
+  }
+  const { request, problems: inputProblems } = readTaskRequest(body.task!, body.input);
+  return { request, problems: [...problems, ...inputProblems] };
+};
+
+const toHttpError = (failure: AIServiceError) =>
+  new HttpError(STATUS_FOR_CATEGORY[failure.category], failure.message, {
+    details: { category: failure.category },
+    headers: failure.retryAfterMs ? { "Retry-After": String(Math.ceil(failure.retryAfterMs / 1000)) } : undefined,
+  });
+
+const writeEvent = (res: ServerResponse, event: ProxyStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+export const handleAI = async (req: IncomingMessage, res: ServerResponse, url: URL, { upstream, limiter, usage }: AIRouteContext) => {
+  const mode = url.pathname.slice(AI_PATH.length + 1);
+  if (mode !== "generate" && mode !== "stream") throw new HttpError(404, "Not found.");
+  if (req.method !== "POST") throw new HttpError(405, `${req.method} not allowed.`);
+  if (!upstream) throw new HttpError(503, "No AI backend is configured on this server.", { details: { category: "server" } });
+
+  const client = clientKey(req);
+  const startedAt = Date.now();
+  const requestBytes = Number(req.headers["content-length"]) || 0;
+  let task = "unknown";
+  let model = upstream.model;
+  let responseChars = 0;
+
+  const log = (outcome: string) =>
+    usage.record({ date: new Date(startedAt).toISOString(), client, task, model, outcome, durationMs: Date.now() - startedAt, requestBytes, responseChars });
+
+  const retryAfterMs = limiter.take(client);
+  if (retryAfterMs !== null) {
+    void log("rate-limited");
+    throw new HttpError(429, "Rate limit reached. Try again shortly.", {
+      details: { category: "quota" },
+      headers: { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) },
+    });
+  }
+
+  let body: Partial<ProxyRequestBody>;
+  let taskRequest: AITaskRequest;
+  try {
+    body = await readJson<Partial<ProxyRequestBody>>(req, MAX_BODY_BYTES);
+    if (typeof body !== "object" || body === null || Array.isArray(body)) throw new HttpError(400, "Body must be a JSON object.");
+    const { request, problems } = validateBody(body, upstream);
+    if (!request || problems.length > 0) throw new HttpError(400, problems.join("; "));
+    taskRequest = request;
+  } catch (error) {
+    void log("rejected");
+    throw error;
+  }
+
+  task = body.task!;
+  model = body.model || upstream.model;
+  const provider = getAIProvider({ ...upstream, model });
+  const request = { ...buildAIRequest(taskRequest, body.promptVersion), seed: body.seed };
+
+  // Stop the upstream call when the browser goes away (abort button, closed tab)
+  const disconnected = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) disconnected.abort();
+  });
+
+  let streaming = false;
+  try {
+    const text = await runAIRequest(
+      signal => mode === "generate"
+        ? provider.generateJSON({ ...request, signal })
+        : provider.streamJSON({ ...request, signal }, partial => {
+            if (!streaming) {
+              res.writeHead(200, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache", "Access-Control-Allow-Origin": "*" });
+              streaming = true;
+            }
+            writeEvent(res, { delta: partial.slice(responseChars) });
+            responseChars = partial.length;
+          }),
+      disconnected.signal,
+      SINGLE_ATTEMPT
+    );
+
+    responseChars = text.length;
+    void log("ok");
+    if (mode === "generate") {
+      sendJson(res, 200, { text });
+    } else if (streaming) {
+      res.end(`${JSON.stringify({ done: true } satisfies ProxyStreamEvent)}\n`);
+    } else {
+      sendJson(res, 502, { error: "Backend returned no stream.", category: "server" });
+    }
+  } catch (error) {
+    const failure = toAIServiceError(error);
+    void log(failure.category);
+    if (!streaming) throw toHttpError(failure);
+    // Headers are already sent, so the failure travels as the final event
+    writeEvent(res, { error: failure.message, category: failure.category });
+    res.end();
+  }
+};
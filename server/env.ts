@@ -0,0 +1,10 @@
+import { existsSync } from "node:fs";
+
+// Reads the same env files as Vite so one .env.local configures both. Variables already set
+// win, and earlier files win over later ones, matching Vite's precedence.
+for (const file of [".env.local", ".env"]) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+
+// The Gemini provider reads API_KEY; .env files name it GEMINI_API_KEY
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
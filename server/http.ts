@@ -0,0 +1,42 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+
+export class HttpError extends Error {
+  status: number;
+  details?: Record<string, unknown>; // extra fields for the JSON error body
+  headers?: Record<string, string>;
+
+  constructor(status: number, message: string, options: { details?: Record<string, unknown>; headers?: Record<string, string> } = {}) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.details = options.details;
+    this.headers = options.headers;
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    ...headers,
+  });
+  res.end(JSON.stringify(body));
+};
+
+// Reads and parses a JSON body, rejecting anything over maxBytes
+export const readJson = async <T>(req: IncomingMessage, maxBytes: number): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, `Payload exceeds ${maxBytes} bytes.`);
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Body is not valid JSON.");
+  }
+};
@@ -0,0 +1,67 @@
+import "./env";
+import { createServer } from "node:http";
+import { resolve } from "node:path";
+import { getAIConfig } from "../services/providers";
+import { AI_PATH, handleAI } from "./aiRoutes";
+import { HttpError, sendJson } from "./http";
+import { createLeaderboardStore } from "./leaderboardStore";
+import { handleLeaderboard, LEADERBOARD_PATH } from "./leaderboardRoutes";
+import { createRateLimiter } from "./rateLimiter";
+import { createUsageLog } from "./usageLog";
+
+const PORT = Number(process.env.SERVER_PORT) || 8787;
+const leaderboard = createLeaderboardStore(
+  process.env.LEADERBOARD_FILE || resolve(import.meta.dirname, "data/leaderboard.json"),
+  { retentionDays: Number(process.env.LEADERBOARD_RETENTION_DAYS) || undefined }
+);
+
+// The backend the browser's requests are forwarded to; the key never leaves this process
+const upstream = getAIConfig();
+if (upstream.provider === "proxy") console.error("AI_PROVIDER=proxy would forward the server to itself; AI requests are disabled.");
+
+const ai = {
+  upstream: upstream.provider === "proxy" ? null : upstream,
+  limiter: createRateLimiter([
+    { limit: Number(process.env.AI_RATE_LIMIT) || 20, windowMs: 60_000 },
+    { limit: Number(process.env.AI_DAILY_LIMIT) || 300, windowMs: 24 * 60 * 60_000 },
+  ]),
+  usage: createUsageLog(process.env.AI_USAGE_LOG || resolve(import.meta.dirname, "data/ai-usage.jsonl")),
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Delete-Token",
+    });
+    res.end();
+    return;
+  }
+
+  try {
+    if (url.pathname === LEADERBOARD_PATH || url.pathname.startsWith(`${LEADERBOARD_PATH}/`)) {
+      await handleLeaderboard(req, res, url, leaderboard);
+      return;
+    }
+    if (url.pathname.startsWith(`${AI_PATH}/`)) {
+      await handleAI(req, res, url, ai);
+      return;
+    }
+    throw new HttpError(404, "Not found.");
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message, ...error.details }, error.headers);
+    } else {
+      console.error("Request failed:", error);
+      sendJson(res, 500, { error: "Internal error." });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`PSYCHE-7 server listening on http://localhost:${PORT}`);
+  if (ai.upstream) console.log(`AI requests forwarded to ${ai.upstream.provider}/${ai.upstream.model}`);
+});
@@ -0,0 +1,75 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { LeaderboardEntry } from "../types";
+import { parseLeaderboardQuery, queryLeaderboard, validateSubmission } from "../services/leaderboardQuery";
+import { HttpError, readJson, sendJson } from "./http";
+import { LeaderboardStore, StoredEntry } from "./leaderboardStore";
+
+const MAX_BODY_BYTES = 4 * 1024;
+
+export const LEADERBOARD_PATH = "/api/leaderboard";
+
+// Removal is disabled unless the server was started with LEADERBOARD_ADMIN_TOKEN
+const ADMIN_TOKEN = process.env.LEADERBOARD_ADMIN_TOKEN || "";
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest();
+
+// The submitter may remove their own entry with the token returned when it was created
+const ownsEntry = (req: IncomingMessage, entry: StoredEntry) => {
+  const token = req.headers["x-delete-token"];
+  if (typeof token !== "string" || !entry.deleteTokenHash) return false;
+  const expected = Buffer.from(entry.deleteTokenHash, "hex");
+  const actual = hashToken(token);
+  // A malformed stored hash has another length, which timingSafeEqual would throw on
+  return expected.length === actual.length && timingSafeEqual(actual, expected);
+};
+
+const requireAdmin = (req: IncomingMessage) => {
+  if (!ADMIN_TOKEN) throw new HttpError(403, "Entry removal is disabled on this server.");
+  if (req.headers.authorization !== `Bearer ${ADMIN_TOKEN}`) throw new HttpError(401, "Invalid admin token.");
+};
+
+const toPublic = ({ deleteTokenHash, ...entry }: StoredEntry): LeaderboardEntry => entry;
+
+export const handleLeaderboard = async (req: IncomingMessage, res: ServerResponse, url: URL, store: LeaderboardStore) => {
+  const entryId = url.pathname.startsWith(`${LEADERBOARD_PATH}/`)
+    ? decodeURIComponent(url.pathname.slice(LEADERBOARD_PATH.length + 1))
+    : null;
+
+  if (entryId !== null) {
+    if (req.method !== "DELETE") throw new HttpError(405, `${req.method} not allowed.`);
+    const entry = await store.find(entryId);
+    if (!entry || !ownsEntry(req, entry)) requireAdmin(req);
+    if (!(await store.remove(entryId))) throw new HttpError(404, "Entry not found.");
+    sendJson(res, 200, { removed: entryId });
+    return;
+  }
+
+  if (req.method === "GET") {
+    sendJson(res, 200, queryLeaderboard((await store.list()).map(toPublic), parseLeaderboardQuery(url.searchParams)));
+    return;
+  }
+
+  if (req.method === "POST") {
+    const body = await readJson<Partial<LeaderboardEntry>>(req, MAX_BODY_BYTES);
+    const problems = validateSubmission(body);
+    if (problems.length > 0) throw new HttpError(400, problems.join("; "));
+
+    // Identity and timestamp are assigned here, never trusted from the client
+    const deleteToken = randomUUID();
+    const entry = await store.add({
+      id: randomUUID(),
+      username: body.username!.trim().toUpperCase(),
+      score: body.score!,
+      questionCount: body.questionCount!,
+      scoringVersion: body.scoringVersion!,
+      date: new Date().toISOString(),
+      deleteTokenHash: hashToken(deleteToken).toString("hex"),
+    });
+    // The token is only ever sent here, to the submitter
+    sendJson(res, 201, { ...toPublic(entry), deleteToken });
+    return;
+  }
+
+  throw new HttpError(405, `${req.method} not allowed.`);
+};
@@ -0,0 +1,81 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { LeaderboardEntry } from "../types";
+
+// Only a hash of the submitter's delete token is kept, and it is never served back
+export type StoredEntry = LeaderboardEntry & { deleteTokenHash?: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Flat JSON file; writes go through a temp file so a crash never leaves it half-written.
+ * With `retentionDays`, entries older than that are dropped whenever the list is read.
+ */
+export const createLeaderboardStore = (filePath: string, { retentionDays }: { retentionDays?: number } = {}) => {
+  let cache: StoredEntry[] | null = null;
+  let writing = Promise.resolve();
+
+  // A missing file is an empty board; anything unreadable is raised rather than overwritten by the next write
+  const read = async (): Promise<StoredEntry[]> => {
+    if (cache) return cache;
+    let text: string;
+    try {
+      text = await readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return (cache = []);
+      throw error;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error(`Leaderboard file ${filePath} is not valid JSON.`);
+    }
+    if (!Array.isArray(parsed)) throw new Error(`Leaderboard file ${filePath} does not hold a list of entries.`);
+    return (cache = parsed as StoredEntry[]);
+  };
+
+  const load = async (): Promise<StoredEntry[]> => {
+    const entries = await read();
+    if (!retentionDays) return entries;
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+    const kept = entries.filter(e => e.date >= cutoff);
+    if (kept.length < entries.length) {
+      cache = kept;
+      await persist(kept);
+    }
+    return kept;
+  };
+
+  // The caller sees a failed write, but the chain is reset so later writes still run
+  const persist = (entries: StoredEntry[]) => {
+    const written = writing.then(async () => {
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(`${filePath}.tmp`, JSON.stringify(entries, null, 2));
+      await rename(`${filePath}.tmp`, filePath);
+    });
+    writing = written.catch(() => {});
+    return written;
+  };
+
+  return {
+    list: load,
+    find: async (id: string) => (await load()).find(e => e.id === id) || null,
+    add: async (entry: StoredEntry) => {
+      const entries = [...(await load()), entry];
+      cache = entries;
+      await persist(entries);
+      return entry;
+    },
+    remove: async (id: string) => {
+      const entries = await load();
+      const remaining = entries.filter(e => e.id !== id);
+      if (remaining.length === entries.length) return false;
+      cache = remaining;
+      await persist(remaining);
+      return true;
+    },
+  };
+};
+
+export type LeaderboardStore = ReturnType<typeof createLeaderboardStore>;
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./rateLimiter";
+
+describe("createRateLimiter", () => {
+  it("allows requests up to the limit and then returns the wait", () => {
+    const limiter = createRateLimiter([{ limit: 2, windowMs: 1000 }]);
+    expect(limiter.take("a", 0)).toBeNull();
+    expect(limiter.take("a", 100)).toBeNull();
+    expect(limiter.take("a", 400)).toBe(600);
+  });
+
+  it("counts each key separately", () => {
+    const limiter = createRateLimiter([{ limit: 1, windowMs: 1000 }]);
+    expect(limiter.take("a", 0)).toBeNull();
+    expect(limiter.take("b", 0)).toBeNull();
+    expect(limiter.take("a", 0)).toBe(1000);
+  });
+
+  it("starts a fresh window once the old one ends", () => {
+    const limiter = createRateLimiter([{ limit: 1, windowMs: 1000 }]);
+    expect(limiter.take("a", 0)).toBeNull();
+    expect(limiter.take("a", 999)).toBe(1);
+    expect(limiter.take("a", 1000)).toBeNull();
+  });
+
+  it("counts a blocked request against no rule", () => {
+    const limiter = createRateLimiter([{ limit: 1, windowMs: 1000 }, { limit: 2, windowMs: 10000 }]);
+    expect(limiter.take("a", 0)).toBeNull();
+    expect(limiter.take("a", 500)).toBe(500);
+    // Had the blocked request counted, the longer window would be full by now
+    expect(limiter.take("a", 1000)).toBeNull();
+    expect(limiter.take("a", 2000)).toBe(8000);
+  });
+});
@@ -0,0 +1,41 @@
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+// Keys kept before expired windows are swept, so an idle server's memory stays bounded
+const SWEEP_THRESHOLD = 10_000;
+
+// Fixed-window counters per client key; a request counts against every rule or none
+export const createRateLimiter = (rules: RateLimitRule[]) => {
+  const windows = rules.map(() => new Map<string, { start: number; count: number }>());
+
+  const sweep = (now: number) => {
+    windows.forEach((counters, i) => {
+      counters.forEach((window, key) => {
+        if (now - window.start >= rules[i].windowMs) counters.delete(key);
+      });
+    });
+  };
+
+  return {
+    // Records a request for `key` and returns null, or the milliseconds to wait when a limit is reached
+    take: (key: string, now = Date.now()): number | null => {
+      if (windows.some(counters => counters.size > SWEEP_THRESHOLD)) sweep(now);
+
+      const current = windows.map((counters, i) => {
+        const window = counters.get(key);
+        return window && now - window.start < rules[i].windowMs ? window : { start: now, count: 0 };
+      });
+
+      const blocked = current.map((window, i) => (window.count >= rules[i].limit ? window.start + rules[i].windowMs - now : 0));
+      const retryAfterMs = Math.max(...blocked);
+      if (retryAfterMs > 0) return retryAfterMs;
+
+      current.forEach((window, i) => windows[i].set(key, { start: window.start, count: window.count + 1 }));
+      return null;
+    },
+  };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,168 @@
+import { Answer, DimensionDefinition, InterrogationMessage, QuestionCount, QuestionType, TimeoutAction, TimingSettings } from "../types";
+import { AITaskRequest, InterrogationFindings, INTERROGATION_CONTEXT_TURNS, INTERROGATION_MAX_QUESTION_LENGTH, SubjectSummary } from "../services/aiTasks";
+import { MAX_COMPARED } from "../services/comparison";
+import { DEFAULT_DIMENSIONS } from "../services/dimensions";
+import { readAnswer } from "../services/dossierExport";
+import { isLocale } from "../services/i18n";
+import { PROTOCOL_LIMITS } from "../services/protocolStore";
+import { MAX_AVOID_TEXTS, QUESTION_BATCH_SIZE } from "../services/questionPipeline";
+import { QUESTION_TYPES } from "../services/questionTypes";
+import { TIMEOUT_ACTIONS } from "../services/timing";
+import { readIntegrity } from "../services/validation";
+import { AITask } from "../services/providers";
+
+// The longest standard scan; adaptive runs and protocols stay within it
+const MAX_ANSWERS = QuestionCount.FULL;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === "string");
+
+const isScoreMap = (value: unknown): value is Record<string, number> =>
+  isObject(value) && Object.values(value).every(score => typeof score === "number" && Number.isFinite(score));
+
+// Every field of an input is read by name into a fresh object, so nothing unlisted reaches a prompt
+const FIELDS: Record<AITask, string[]> = {
+  generateQuestions: ["count", "offset", "dimensions", "avoid", "formats", "definitions", "persona", "locale"],
+  analyzePersonality: ["answers", "timing", "definitions", "persona", "locale"],
+  analyzeCompatibility: ["subjects"],
+  interrogate: ["question", "transcript", "answers", "findings", "definitions", "persona", "locale"],
+};
+
+const readDefinition = (raw: unknown): DimensionDefinition | null => {
+  if (!isObject(raw)) return null;
+  const { name, description, weight } = raw;
+  if (typeof name !== "string" || !name.trim() || typeof description !== "string") return null;
+  if (typeof weight !== "number" || !(weight >= -1 && weight <= 1)) return null;
+  return { name, description, weight };
+};
+
+const readTiming = (raw: unknown): TimingSettings | null => {
+  if (!isObject(raw) || !TIMEOUT_ACTIONS.includes(raw.onTimeout as TimeoutAction)) return null;
+  const { questionSeconds, sessionMinutes } = raw;
+  const isLimit = (value: unknown) => value === undefined || (typeof value === "number" && value > 0);
+  if (!isLimit(questionSeconds) || !isLimit(sessionMinutes)) return null;
+  return {
+    ...(questionSeconds !== undefined && { questionSeconds: questionSeconds as number }),
+    onTimeout: raw.onTimeout as TimeoutAction,
+    ...(sessionMinutes !== undefined && { sessionMinutes: sessionMinutes as number }),
+  };
+};
+
+const readSubject = (raw: unknown): SubjectSummary | null => {
+  if (!isObject(raw)) return null;
+  const { subject, stabilityScore, dimensionScores, dominantTraits, riskIndicators } = raw;
+  if (typeof subject !== "string" || !subject.trim() || typeof stabilityScore !== "number") return null;
+  if (!isScoreMap(dimensionScores) || !isStringList(dominantTraits) || !isStringList(riskIndicators)) return null;
+  return { subject, stabilityScore, dimensionScores, dominantTraits, riskIndicators };
+};
+
+const readFindings = (raw: unknown): InterrogationFindings | null => {
+  if (!isObject(raw)) return null;
+  const { stabilityScore, confidenceScore, dimensionScores, dimensionRationale, integrity } = raw;
+  if (typeof stabilityScore !== "number" || typeof confidenceScore !== "number" || !isScoreMap(dimensionScores)) return null;
+  if (dimensionRationale !== undefined && !(isObject(dimensionRationale) && Object.values(dimensionRationale).every(r => typeof r === "string"))) return null;
+  const lists = (["dominantTraits", "strengths", "weaknesses", "behavioralTendencies", "riskIndicators"] as const).map(field => raw[field]);
+  if (!lists.every(isStringList)) return null;
+  const [dominantTraits, strengths, weaknesses, behavioralTendencies, riskIndicators] = lists as string[][];
+  const checkedIntegrity = integrity === undefined ? undefined : readIntegrity(integrity);
+  if (integrity !== undefined && !checkedIntegrity) return null;
+  return {
+    stabilityScore,
+    confidenceScore,
+    dimensionScores,
+    ...(dimensionRationale !== undefined && { dimensionRationale: dimensionRationale as Record<string, string> }),
+    dominantTraits,
+    strengths,
+    weaknesses,
+    behavioralTendencies,
+    riskIndicators,
+    ...(checkedIntegrity && { integrity: checkedIntegrity }),
+  };
+};
+
+const readTurn = (raw: unknown): Pick<InterrogationMessage, "role" | "text"> | null =>
+  isObject(raw) && (raw.role === "interrogator" || raw.role === "profiler") && typeof raw.text === "string"
+    ? { role: raw.role, text: raw.text }
+    : null;
+
+// Reads every item of a list, or returns null if any one of them is malformed
+const readList = <T>(raw: unknown, read: (item: unknown) => T | null): T[] | null => {
+  if (!Array.isArray(raw)) return null;
+  const items = raw.map(read);
+  return items.every(item => item !== null) ? (items as T[]) : null;
+};
+
+/**
+ * Checks the structured input of a proxied AI request and copies it field by field. Unknown
+ * fields and malformed values are reported in `problems`; `request` is only usable when
+ * there are none.
+ */
+export const readTaskRequest = (task: AITask, raw: unknown): { request: AITaskRequest; problems: string[] } => {
+  const problems: string[] = [];
+  const input: Record<string, unknown> = {};
+  const source = isObject(raw) ? raw : {};
+  if (!isObject(raw)) problems.push("input must be an object");
+  Object.keys(source).filter(field => !FIELDS[task].includes(field)).forEach(field => problems.push(`input.${field} is not accepted`));
+
+  // Reads one field into `input`; `read` returns null for a malformed value
+  const field = <T>(name: string, read: (value: unknown) => T | null, message: string, required = false) => {
+    const value = source[name];
+    if (value === undefined) {
+      if (required) problems.push(`input.${name} is required`);
+      return undefined;
+    }
+    const checked = read(value);
+    if (checked === null) problems.push(`input.${name} ${message}`);
+    else input[name] = checked;
+    return checked ?? undefined;
+  };
+
+  const answers = (value: unknown) => {
+    const list = readList<Answer>(value, readAnswer);
+    return list && list.length > 0 && list.length <= MAX_ANSWERS ? list : null;
+  };
+
+  if (task !== "analyzeCompatibility") {
+    const definitions = field("definitions", value => {
+      const list = readList(value, readDefinition);
+      return list && list.length > 0 && list.length <= PROTOCOL_LIMITS.maxDimensions ? list : null;
+    }, `must list 1 to ${PROTOCOL_LIMITS.maxDimensions} dimensions with a name, description and weight from -1 to 1`);
+    field("persona", value => (typeof value === "string" ? value : null), "must be a string");
+    field("locale", value => (isLocale(value) ? value : null), "is not a supported language");
+
+    if (task === "generateQuestions") {
+      const count = field("count", value => (Number.isInteger(value) && (value as number) >= 1 && (value as number) <= QUESTION_BATCH_SIZE ? (value as number) : null),
+        `must be a whole number from 1 to ${QUESTION_BATCH_SIZE}`, true);
+      field("offset", value => (Number.isInteger(value) && (value as number) >= 0 ? (value as number) : null), "must be a whole number of at least 0", true);
+      const names = (definitions || DEFAULT_DIMENSIONS).map(d => d.name);
+      field("dimensions", value => (isStringList(value) && value.length <= (count ?? 0) && value.every(name => names.includes(name)) ? value : null),
+        "must name a defined dimension for each question at most");
+      field("avoid", value => (isStringList(value) && value.length <= MAX_AVOID_TEXTS ? value : null), `must list at most ${MAX_AVOID_TEXTS} texts`, true);
+      field("formats", value => (isStringList(value) && value.length > 0 && value.every(type => QUESTION_TYPES.includes(type as QuestionType)) ? (value as QuestionType[]) : null),
+        `must list formats from ${QUESTION_TYPES.join(", ")}`);
+    } else {
+      field("answers", answers, `must hold 1 to ${MAX_ANSWERS} well-formed answers`, true);
+    }
+
+    if (task === "analyzePersonality") {
+      field("timing", readTiming, "must have a timeout action and positive limits");
+    } else if (task === "interrogate") {
+      field("question", value => (typeof value === "string" && value.trim() && value.length <= INTERROGATION_MAX_QUESTION_LENGTH ? value : null),
+        `must be a question of at most ${INTERROGATION_MAX_QUESTION_LENGTH} characters`, true);
+      field("transcript", value => {
+        const turns = readList(value, readTurn);
+        return turns && turns.length <= INTERROGATION_CONTEXT_TURNS ? turns : null;
+      }, `must list at most ${INTERROGATION_CONTEXT_TURNS} earlier turns`, true);
+      field("findings", readFindings, "must hold the dossier's scores and findings", true);
+    }
+  } else {
+    field("subjects", value => {
+      const list = readList(value, readSubject);
+      return list && list.length >= 2 && list.length <= MAX_COMPARED ? list : null;
+    }, `must describe 2 to ${MAX_COMPARED} subjects`, true);
+  }
+
+  return { request: { task, input } as unknown as AITaskRequest, problems };
+};
@@ -0,0 +1,32 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export interface UsageEntry {
+  date: string;
+  client: string;
+  task: string;
+  model: string;
+  outcome: string; // "ok", "rate-limited", "rejected" or an AI error category
+  durationMs: number;
+  requestBytes: number;
+  responseChars: number;
+}
+
+// One JSON object per line, appended in order; a failed write is reported but never fails the request
+export const createUsageLog = (filePath: string) => {
+  let writing = Promise.resolve();
+
+  return {
+    record: (entry: UsageEntry) => {
+      writing = writing
+        .then(async () => {
+          await mkdir(dirname(filePath), { recursive: true });
+          await appendFile(filePath, `${JSON.stringify(entry)}\n`);
+        })
+        .catch(error => console.error("Usage log write failed:", error));
+      return writing;
+    },
+  };
+};
+
+export type UsageLog = ReturnType<typeof createUsageLog>;
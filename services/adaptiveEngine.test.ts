@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { Answer } from "../types";
+import { ADAPTIVE_MAX_QUESTIONS, estimateDimensions, rankByUncertainty, shouldStopAdaptive } from "./adaptiveEngine";
+import { analyzeIntegrity } from "./integrity";
+import { computeConfidence } from "./scoringEngine";
+
+const definitions = [
+  { name: "Empathy", description: "", weight: 1 },
+  { name: "Resilience", description: "", weight: 1 },
+];
+
+const answer = (questionId: number, weights: Record<string, number>): Answer => ({
+  questionId,
+  questionText: "A teammate misses a deadline you depend on. You:",
+  selectedOption: "Ask what got in the way.",
+  dimension: Object.keys(weights)[0] ?? "Empathy",
+  optionIndex: questionId % 4,
+  weights,
+  timeTaken: 6000,
+});
+
+// `count` answers weighing every listed dimension the same way
+const consistent = (count: number, dimensions = ["Empathy", "Resilience"]) =>
+  Array.from({ length: count }, (_, i) => answer(i + 1, Object.fromEntries(dimensions.map(d => [d, 2]))));
+
+describe("estimateDimensions", () => {
+  it("is uncertain before any answers", () => {
+    expect(estimateDimensions([], definitions).map(e => e.uncertainty)).toEqual([1, 1]);
+  });
+
+  it("grows more certain with consistent answers", () => {
+    const [two, three] = [2, 3].map(n => estimateDimensions(consistent(n), definitions)[0]);
+    expect(three.uncertainty).toBeLessThan(two.uncertainty);
+    expect(three).toMatchObject({ estimate: 100, observations: 3 });
+  });
+
+  it("stays uncertain when answers contradict each other", () => {
+    const answers = [1, 2, 3, 4].map(id => answer(id, { Empathy: id % 2 ? 2 : -2 }));
+    const [empathy] = estimateDimensions(answers, definitions);
+    expect(empathy.estimate).toBe(50);
+    expect(empathy.uncertainty).toBeGreaterThan(0.4);
+  });
+
+  it("ranks the least certain dimension first", () => {
+    const estimates = estimateDimensions([...consistent(3, ["Empathy"]), answer(4, { Resilience: 2 })], definitions);
+    expect(rankByUncertainty(estimates).map(e => e.dimension)).toEqual(["Resilience", "Empathy"]);
+  });
+});
+
+describe("shouldStopAdaptive", () => {
+  it("continues until every dimension is certain enough", () => {
+    const answers = consistent(2);
+    expect(shouldStopAdaptive(answers, estimateDimensions(answers, definitions))).toBe(false);
+    const more = consistent(3);
+    expect(shouldStopAdaptive(more, estimateDimensions(more, definitions))).toBe(true);
+  });
+
+  it("continues while a dimension is unobserved", () => {
+    const answers = consistent(6, ["Empathy"]);
+    expect(shouldStopAdaptive(answers, estimateDimensions(answers, definitions))).toBe(false);
+  });
+
+  it("stops at the question limit however uncertain", () => {
+    const answers = Array.from({ length: ADAPTIVE_MAX_QUESTIONS }, (_, i) => answer(i + 1, { Empathy: i % 2 ? 2 : -2 }));
+    expect(shouldStopAdaptive(answers, estimateDimensions(answers, definitions))).toBe(true);
+  });
+});
+
+describe("computeConfidence", () => {
+  it("rises with consistent observations", () => {
+    expect(computeConfidence([], definitions)).toBe(1);
+    expect(computeConfidence(consistent(6), definitions)).toBeGreaterThan(computeConfidence(consistent(2), definitions));
+  });
+
+  it("falls when answers contradict each other", () => {
+    const mixed = [1, 2, 3, 4, 5, 6].map(id => answer(id, { Empathy: id % 2 ? 2 : -2, Resilience: 2 }));
+    expect(computeConfidence(mixed, definitions)).toBeLessThan(computeConfidence(consistent(6), definitions));
+  });
+
+  it("falls when integrity is low", () => {
+    const answers = consistent(6);
+    const integrity = { ...analyzeIntegrity(answers), integrityScore: 40 };
+    expect(computeConfidence(answers, definitions, integrity)).toBeLessThan(computeConfidence(answers, definitions));
+  });
+});
@@ -0,0 +1,118 @@
+import { Answer, DimensionDefinition, Locale, Question, QuestionSource } from "../types";
+import { DEFAULT_DIMENSIONS } from "./dimensions";
+import { generateAssessmentQuestions } from "./geminiService";
+import { getBankQuestions, hasBankFor } from "./questionBank";
+import { collectObservations, MAX_WEIGHT } from "./scoringEngine";
+import { isNearDuplicate, MAX_AVOID_TEXTS } from "./questionPipeline";
+
+// Every dimension is asked at least this often before stopping is considered
+export const ADAPTIVE_MIN_PER_DIMENSION = 2;
+export const ADAPTIVE_MAX_QUESTIONS = 60;
+// Stop once every dimension's uncertainty is at or below this (0 = certain, 1 = unknown)
+export const ADAPTIVE_UNCERTAINTY_THRESHOLD = 0.25;
+
+export interface DimensionEstimate {
+  dimension: string;
+  estimate: number; // running 1-100 score
+  uncertainty: number; // 0..1, standard error of the estimate relative to the weight range
+  observations: number;
+}
+
+/**
+ * Running estimate per dimension. A pseudo-observation of maximal spread acts as the prior,
+ * so one answer never looks certain and contradictory answers keep uncertainty high.
+ */
+export const estimateDimensions = (
+  answers: Answer[],
+  dimensions: DimensionDefinition[] = DEFAULT_DIMENSIONS
+): DimensionEstimate[] => {
+  const observations = collectObservations(answers, dimensions);
+
+  return dimensions.map(d => {
+    const values = observations[d.name];
+    const n = values.length;
+    const mean = n > 0 ? values.reduce((sum, v) => sum + v, 0) / n : 0;
+    const deviations = values.reduce((sum, v) => sum + (v - mean) ** 2, 0);
+    const variance = (deviations + MAX_WEIGHT ** 2) / (n + 1);
+    return {
+      dimension: d.name,
+      estimate: Math.min(100, Math.max(1, Math.round(50 + 50 * (mean / MAX_WEIGHT)))),
+      uncertainty: Math.min(1, Math.sqrt(variance / (n + 1)) / MAX_WEIGHT),
+      observations: n,
+    };
+  });
+};
+
+// Least certain first; fewer observations break ties
+export const rankByUncertainty = (estimates: DimensionEstimate[]) =>
+  [...estimates].sort((a, b) => b.uncertainty - a.uncertainty || a.observations - b.observations);
+
+export const shouldStopAdaptive = (answers: Answer[], estimates: DimensionEstimate[]) =>
+  answers.length >= ADAPTIVE_MAX_QUESTIONS ||
+  estimates.every(e => e.observations >= ADAPTIVE_MIN_PER_DIMENSION && e.uncertainty <= ADAPTIVE_UNCERTAINTY_THRESHOLD);
+
+const unusedBankQuestion = (dimension: string, asked: Question[]) =>
+  getBankQuestions(dimension).find(q =>
+    !asked.some(other => other.bankId === q.bankId || isNearDuplicate(q.text, other.text))
+  );
+
+export interface AdaptiveOptions {
+  signal?: AbortSignal;
+  dimensions?: DimensionDefinition[]; // the standard dimensions when absent
+  locale?: Locale;
+  seed?: number; // base seed of the run; each question uses seed + its position
+  promptVersion?: string;
+}
+
+const generateFor = async (dimension: string, asked: Question[], { signal, locale, seed, promptVersion }: AdaptiveOptions) => {
+  const [question] = await generateAssessmentQuestions(1, {
+    dimensions: [dimension],
+    avoid: asked.slice(-MAX_AVOID_TEXTS).map(q => q.text),
+    offset: asked.length,
+    signal,
+    locale,
+    seed: seed === undefined ? undefined : seed + asked.length,
+    promptVersion,
+  });
+  return asked.some(other => isNearDuplicate(question.text, other.text)) ? undefined : question;
+};
+
+/**
+ * Picks the next question for the least certain dimension. Bank and mixed sources prefer
+ * unused bank questions and fall back to generation; the live source generates and falls
+ * back to the bank. Without a bank in the requested locale, every source only generates.
+ * Resolves with null when no dimension can supply another question.
+ */
+export const nextAdaptiveQuestion = async (
+  answers: Answer[],
+  asked: Question[],
+  source: QuestionSource,
+  options: AdaptiveOptions = {}
+): Promise<Question | null> => {
+  const { signal, dimensions = DEFAULT_DIMENSIONS } = options;
+  const bank = hasBankFor(options.locale);
+  const ranked = rankByUncertainty(estimateDimensions(answers, dimensions));
+  let lastError: unknown = null;
+
+  for (const { dimension } of ranked) {
+    let question: Question | undefined;
+
+    if (bank && source !== QuestionSource.GENERATED) question = unusedBankQuestion(dimension, asked);
+    if (!question && (!bank || source !== QuestionSource.BANK)) {
+      try {
+        question = await generateFor(dimension, asked, options);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn(`Adaptive generation failed for ${dimension}.`, error);
+        lastError = error;
+      }
+    }
+    if (!question && bank && source === QuestionSource.GENERATED) question = unusedBankQuestion(dimension, asked);
+
+    if (question) return { ...question, id: asked.length + 1 };
+  }
+
+  // Nothing at all could be produced; surface the failure if there is nothing to analyze yet
+  if (lastError && asked.length === 0) throw lastError;
+  return null;
+};
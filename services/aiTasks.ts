@@ -0,0 +1,271 @@
+import { Type, Schema } from "@google/genai";
+import { Answer, DimensionDefinition, InterrogationMessage, IntegrityReport, Locale, QuestionType, TimingSettings } from "../types";
+import { AIRequest, AITask } from "./providers";
+import { CURRENT_PROMPT_VERSION, getPromptTemplate, PromptTemplate, PromptText } from "./prompts";
+import { DEFAULT_DIMENSIONS } from "./dimensions";
+import { scoreAnswers } from "./scoringEngine";
+import { analyzeIntegrity } from "./integrity";
+import { compareDimensions, compatibilityScore, DIVERGENCE_THRESHOLD } from "./comparison";
+
+// Earlier interrogation turns sent with each question; older ones are dropped to keep requests small
+export const INTERROGATION_CONTEXT_TURNS = 12;
+
+export const INTERROGATION_MAX_QUESTION_LENGTH = 500;
+
+// Custom protocols supply their own dimensions and persona; the standard scan leaves both out
+interface ProtocolContext {
+  definitions?: DimensionDefinition[];
+  persona?: string;
+  locale?: Locale; // language of the output; English when absent
+}
+
+export interface QuestionTaskInput extends ProtocolContext {
+  count: number;
+  offset: number; // questions generated by earlier batches
+  dimensions?: string[]; // target dimension for each requested question, in order
+  avoid: string[]; // texts of questions already asked
+  formats?: QuestionType[]; // multiple choice only when absent
+}
+
+export interface AnalysisTaskInput extends ProtocolContext {
+  answers: Answer[];
+  timing?: TimingSettings; // absent for untimed runs
+}
+
+// What a compatibility request reveals about one subject, named by label or pseudonym
+export interface SubjectSummary {
+  subject: string;
+  stabilityScore: number;
+  dimensionScores: Record<string, number>;
+  dominantTraits: string[];
+  riskIndicators: string[];
+}
+
+export interface CompatibilityTaskInput {
+  subjects: SubjectSummary[];
+}
+
+// A dossier's scores and narrative without the codename
+export interface InterrogationFindings {
+  stabilityScore: number;
+  confidenceScore: number;
+  dimensionScores: Record<string, number>;
+  dimensionRationale?: Record<string, string>;
+  dominantTraits: string[];
+  strengths: string[];
+  weaknesses: string[];
+  behavioralTendencies: string[];
+  riskIndicators: string[];
+  integrity?: IntegrityReport;
+}
+
+export interface InterrogationTaskInput extends ProtocolContext {
+  question: string;
+  transcript: Pick<InterrogationMessage, "role" | "text">[]; // earlier turns, oldest first
+  answers: Answer[];
+  findings: InterrogationFindings;
+}
+
+export interface AITaskInputs {
+  generateQuestions: QuestionTaskInput;
+  analyzePersonality: AnalysisTaskInput;
+  analyzeCompatibility: CompatibilityTaskInput;
+  interrogate: InterrogationTaskInput;
+}
+
+/**
+ * A task and the structured input its prompt is built from. This, not the prompt, is what
+ * the proxy sends, so the server builds every prompt itself.
+ */
+export type AITaskRequest = { [K in AITask]: { task: K; input: AITaskInputs[K] } }[AITask];
+
+// One integer property per dimension, so every option can be scored locally
+const weightsSchema = (names: string[]): Schema => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(names.map(name => [name, { type: Type.INTEGER }])),
+});
+
+// The templates only read the persona from a protocol
+const personaOf = ({ persona }: ProtocolContext) => ({ persona: persona || "" });
+
+// An answer as the model sees it
+const describeAnswer = (a: Answer) => ({
+  dimension: a.dimension,
+  question: a.questionText,
+  format: a.response?.type,
+  choice: a.optionIndex >= 0 || a.response?.type === "free-text" ? a.selectedOption : null,
+  timeTakenMs: a.timeTaken,
+  timedOut: a.timedOut
+});
+
+/**
+ * Lines up the subjects' dimension scores. Recomputed wherever it is needed, so the score a
+ * report shows and the one the model is told always agree.
+ */
+export const compareSubjects = (subjects: SubjectSummary[]) => {
+  const comparison = compareDimensions(subjects.map((s, i) => ({ id: String(i), report: { dimensionScores: s.dimensionScores } })));
+  return {
+    mode: subjects.length === 2 ? ("pair" as const) : ("team" as const),
+    comparison,
+    score: compatibilityScore(comparison),
+  };
+};
+
+const questionsRequest = (template: PromptTemplate, input: QuestionTaskInput) => {
+  const definitions = input.definitions || DEFAULT_DIMENSIONS;
+  const names = definitions.map(d => d.name);
+  const { count, dimensions, avoid, locale, formats } = input;
+  const schema: Schema = {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        id: { type: Type.INTEGER },
+        text: { type: Type.STRING },
+        dimension: { type: Type.STRING },
+        ...(formats && { type: { type: Type.STRING, enum: formats } }),
+        options: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING }
+        },
+        optionWeights: {
+          type: Type.ARRAY,
+          items: weightsSchema(names)
+        },
+        ...(formats?.includes("scenario") && {
+          followUps: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                text: { type: Type.STRING },
+                options: { type: Type.ARRAY, items: { type: Type.STRING } },
+                optionWeights: { type: Type.ARRAY, items: weightsSchema(names) },
+              },
+              required: ["text", "options", "optionWeights"],
+            },
+          },
+        }),
+      },
+      required: ["id", "text", "dimension", "options", "optionWeights", ...(formats ? ["type"] : [])],
+    }
+  };
+  const prompt = template.generateQuestions({ count, definitions, protocol: personaOf(input), plan: dimensions, avoid, locale, formats });
+  return { prompt, schema };
+};
+
+const analysisRequest = (template: PromptTemplate, input: AnalysisTaskInput) => {
+  const definitions = input.definitions || DEFAULT_DIMENSIONS;
+  const { answers, locale, timing } = input;
+  // Scored here from the answers alone, so the model never sees scores a client made up
+  const integrity = analyzeIntegrity(answers);
+  const scores = scoreAnswers(answers, definitions, integrity);
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      dominantTraits: { type: Type.ARRAY, items: { type: Type.STRING } },
+      strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+      weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
+      behavioralTendencies: { type: Type.ARRAY, items: { type: Type.STRING } },
+      riskIndicators: { type: Type.ARRAY, items: { type: Type.STRING } },
+      dimensionRationale: {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(definitions.map(d => [d.name, { type: Type.STRING }])),
+      },
+    },
+    required: ["dominantTraits", "strengths", "weaknesses", "behavioralTendencies", "riskIndicators", "dimensionRationale"]
+  };
+  // timeTaken is included so the model can describe response behavior
+  const prompt = template.analyzePersonality({
+    definitions,
+    protocol: personaOf(input),
+    locale,
+    scoreData: JSON.stringify(scores),
+    integrityData: JSON.stringify(integrity),
+    answerData: JSON.stringify(answers.map(describeAnswer)),
+    timingData: timing && JSON.stringify(timing),
+  });
+  return { prompt, schema };
+};
+
+const compatibilityRequest = (template: PromptTemplate, { subjects }: CompatibilityTaskInput) => {
+  const { mode, comparison, score } = compareSubjects(subjects);
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      summary: { type: Type.STRING },
+      synergies: { type: Type.ARRAY, items: { type: Type.STRING } },
+      frictionPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+      recommendations: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ["summary", "synergies", "frictionPoints", "recommendations"],
+  };
+  const prompt = template.analyzeCompatibility({
+    mode,
+    score,
+    divergenceThreshold: DIVERGENCE_THRESHOLD,
+    subjectData: JSON.stringify(subjects),
+    comparisonData: JSON.stringify(comparison.map(c => ({ dimension: c.dimension, mean: c.mean, spread: c.spread, divergent: c.divergent }))),
+  });
+  return { prompt, schema };
+};
+
+const interrogationRequest = (template: PromptTemplate, input: InterrogationTaskInput) => {
+  if (!template.interrogate) throw new Error(`Prompt version ${template.version} does not support interrogation.`);
+  if (input.question.length > INTERROGATION_MAX_QUESTION_LENGTH) {
+    throw new Error(`Questions are limited to ${INTERROGATION_MAX_QUESTION_LENGTH} characters.`);
+  }
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: { reply: { type: Type.STRING } },
+    required: ["reply"],
+  };
+  const prompt = template.interrogate({
+    definitions: input.definitions || DEFAULT_DIMENSIONS,
+    protocol: personaOf(input),
+    locale: input.locale,
+    reportData: JSON.stringify(input.findings),
+    answerData: JSON.stringify(input.answers.map((a, i) => ({ number: i + 1, ...describeAnswer(a) }))),
+    transcript: input.transcript
+      .slice(-INTERROGATION_CONTEXT_TURNS)
+      .map(m => `${m.role === "interrogator" ? "INTERROGATOR" : "PSYCHE-7"}: ${m.text}`)
+      .join("\n"),
+    question: input.question,
+  });
+  return { prompt, schema };
+};
+
+/**
+ * Builds the prompt, response schema and temperature for a task from its structured input.
+ * The browser and the server's AI proxy both build requests here, so a prompt can only ever
+ * come from services/prompts. Throws for an unknown prompt version or an unsupported task.
+ */
+export const buildAIRequest = (
+  request: AITaskRequest,
+  promptVersion: string = CURRENT_PROMPT_VERSION
+): Omit<AIRequest, "signal" | "seed"> => {
+  const template = getPromptTemplate(promptVersion);
+  let built: { prompt: PromptText; schema: Schema };
+  switch (request.task) {
+    case "generateQuestions":
+      built = questionsRequest(template, request.input);
+      break;
+    case "analyzePersonality":
+      built = analysisRequest(template, request.input);
+      break;
+    case "analyzeCompatibility":
+      built = compatibilityRequest(template, request.input);
+      break;
+    case "interrogate":
+      built = interrogationRequest(template, request.input);
+      break;
+  }
+  return {
+    task: request.task,
+    input: request.input,
+    promptVersion: template.version,
+    ...built.prompt,
+    schema: built.schema,
+    temperature: template.temperature[request.task],
+  };
+};
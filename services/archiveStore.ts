@@ -0,0 +1,34 @@
+import { ArchivedDossier, InterrogationMessage } from "../types";
+
+const ARCHIVE_KEY = "psyche7_archive";
+
+const readArchive = (): ArchivedDossier[] => {
+  try {
+    return JSON.parse(localStorage.getItem(ARCHIVE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const writeArchive = (dossiers: ArchivedDossier[]) => {
+  localStorage.setItem(ARCHIVE_KEY, JSON.stringify(dossiers));
+};
+
+// Newest first; all subjects when no codename is given
+export const listDossiers = (username?: string): ArchivedDossier[] =>
+  readArchive()
+    .filter(d => !username || d.username === username)
+    .sort((a, b) => b.completedAt.localeCompare(a.completedAt));
+
+export const saveDossier = (dossier: ArchivedDossier) => {
+  writeArchive([...readArchive().filter(d => d.id !== dossier.id), dossier]);
+};
+
+export const deleteDossier = (id: string) => {
+  writeArchive(readArchive().filter(d => d.id !== id));
+};
+
+// Replaces a stored dossier's interrogation transcript, leaving the rest as stored
+export const saveInterrogation = (id: string, interrogation: InterrogationMessage[]) => {
+  writeArchive(readArchive().map(d => (d.id === id ? { ...d, interrogation } : d)));
+};
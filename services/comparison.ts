@@ -0,0 +1,50 @@
+import { ArchivedDossier, DimensionComparison, PersonalityReport } from "../types";
+
+// Keeps the side-by-side table readable; the AI proxy accepts no more subjects either
+export const MAX_COMPARED = 8;
+
+// Score gap at which subjects are considered to differ on a dimension
+export const DIVERGENCE_THRESHOLD = 30;
+
+/**
+ * Lines up dimension scores across dossiers. Dimensions come from every dossier, so runs
+ * of different protocols can be compared on whatever they share.
+ */
+export const compareDimensions = (
+  dossiers: (Pick<ArchivedDossier, "id"> & { report: Pick<PersonalityReport, "dimensionScores"> })[]
+): DimensionComparison[] => {
+  const names = [...new Set(dossiers.flatMap(d => Object.keys(d.report.dimensionScores || {})))];
+
+  return names.map(dimension => {
+    const scores: Record<string, number | null> = {};
+    dossiers.forEach(d => { scores[d.id] = d.report.dimensionScores?.[dimension] ?? null; });
+    const values = Object.values(scores).filter((v): v is number => v !== null);
+    const spread = values.length > 1 ? Math.max(...values) - Math.min(...values) : 0;
+
+    return {
+      dimension,
+      scores,
+      mean: Math.round(values.reduce((sum, v) => sum + v, 0) / values.length),
+      spread,
+      divergent: spread >= DIVERGENCE_THRESHOLD,
+    };
+  });
+};
+
+// 100 minus the mean score gap over dimensions at least two subjects share
+export const compatibilityScore = (comparison: DimensionComparison[]) => {
+  const shared = comparison.filter(c => Object.values(c.scores).filter(v => v !== null).length > 1);
+  if (shared.length === 0) return 50;
+  const meanSpread = shared.reduce((sum, c) => sum + c.spread, 0) / shared.length;
+  return Math.min(100, Math.max(1, Math.round(100 - meanSpread)));
+};
+
+// Most recent dossier per codename, for building a team roster
+export const latestPerSubject = (dossiers: ArchivedDossier[]) => {
+  const latest = new Map<string, ArchivedDossier>();
+  dossiers.forEach(d => {
+    const current = latest.get(d.username);
+    if (!current || d.completedAt > current.completedAt) latest.set(d.username, d);
+  });
+  return [...latest.values()];
+};
@@ -0,0 +1,16 @@
+import { Dimension, DimensionDefinition } from "../types";
+
+// The nine axes PSYCHE-7 evaluates, with their contribution to the stability score
+export const DEFAULT_DIMENSIONS: DimensionDefinition[] = [
+  { name: Dimension.EMOTIONAL_STABILITY, description: "Capacity to regulate mood and remain composed.", weight: 1 },
+  { name: Dimension.EMPATHY, description: "Sensitivity to the emotional states of others.", weight: 0.5 },
+  { name: Dimension.AUTONOMY, description: "Willingness to act independently of instruction.", weight: 0.5 },
+  { name: Dimension.STRESS_RESILIENCE, description: "Performance retention under sustained pressure.", weight: 1 },
+  { name: Dimension.RISK_TOLERANCE, description: "Acceptance of uncertain or dangerous outcomes.", weight: -0.5 },
+  { name: Dimension.SOCIAL_DEPENDENCE, description: "Reliance on group approval and support.", weight: -0.5 },
+  { name: Dimension.CONTROL_DOMINANCE, description: "Drive to direct people and situations.", weight: -0.5 },
+  { name: Dimension.ANALYTICAL_DECISION, description: "Preference for analysis over emotion when deciding.", weight: 0.5 },
+  { name: Dimension.MORAL_FLEXIBILITY, description: "Readiness to bend ethical rules for an objective.", weight: -0.75 },
+];
+
+export const DIMENSION_NAMES = DEFAULT_DIMENSIONS.map(d => d.name);
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { ArchivedDossier } from "../types";
+import { DossierImportError, exportDossierJSON, importDossierJSON } from "./dossierExport";
+
+const dossier: ArchivedDossier = {
+  id: "stored-id",
+  username: "ghost",
+  report: {
+    subjectName: "ghost",
+    score: 70,
+    dominantTraits: ["Guarded"],
+    strengths: [],
+    weaknesses: [],
+    behavioralTendencies: [],
+    riskIndicators: [],
+    confidenceScore: 80,
+    dimensionScores: { Empathy: 60 },
+    scoringVersion: "1",
+    generatedAt: "2026-01-01T00:00:00.000Z",
+  },
+  answers: [{
+    questionId: 1,
+    questionText: "You:",
+    selectedOption: "Act.",
+    dimension: "Empathy",
+    optionIndex: 0,
+    weights: { Empathy: 2 },
+    timeTaken: 4000,
+  }],
+  questions: [],
+  startedAt: "2026-01-01T00:00:00.000Z",
+  completedAt: "2026-01-01T00:05:00.000Z",
+};
+
+const withDossier = (changes: Record<string, unknown>) =>
+  JSON.stringify({ schemaVersion: 1, exportedAt: "", dossier: { ...dossier, ...changes } });
+
+describe("importDossierJSON", () => {
+  it("round-trips an export under a fresh id", () => {
+    const imported = importDossierJSON(exportDossierJSON(dossier), "ghost");
+    expect(imported.answers).toEqual(dossier.answers);
+    expect(imported.id).not.toBe("stored-id");
+  });
+
+  it("rejects a dossier from another codename", () => {
+    expect(() => importDossierJSON(exportDossierJSON(dossier), "wraith")).toThrow(DossierImportError);
+  });
+
+  it("rejects malformed answers", () => {
+    expect(() => importDossierJSON(withDossier({ answers: [{}] }), "ghost")).toThrow(/Answer 1/);
+    expect(() => importDossierJSON(withDossier({ answers: [{ ...dossier.answers[0], weights: { Empathy: "2" } }] }), "ghost")).toThrow(DossierImportError);
+  });
+
+  it("rejects files that are not dossier exports", () => {
+    expect(() => importDossierJSON("not json", "ghost")).toThrow(/not valid JSON/);
+    expect(() => importDossierJSON(JSON.stringify({ schemaVersion: 1, dossier: [] }), "ghost")).toThrow(/not a PSYCHE-7/);
+  });
+});
@@ -0,0 +1,290 @@
+import { Answer, AnswerResponse, ArchivedDossier, AssessmentProtocol, DimensionWeights, GenerationMetadata, InterrogationMessage, ProctorSettings, Question, QuestionType, TimeoutAction } from "../types";
+import { validateReport } from "./validation";
+import { isLocale, LOCALES } from "./i18n";
+import { describeChoice, TIMEOUT_ACTIONS } from "./timing";
+import { QUESTION_TYPES } from "./questionTypes";
+
+// Bump when the exported shape changes and add a migration from the previous version
+export const DOSSIER_SCHEMA_VERSION = 1;
+
+export interface DossierExport {
+  schemaVersion: number;
+  exportedAt: string;
+  dossier: ArchivedDossier;
+}
+
+export class DossierImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DossierImportError";
+  }
+}
+
+// Each entry upgrades an export from version N to N + 1
+const MIGRATIONS: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const fileSafe = (value: string) => value.replace(/[^a-z0-9_-]+/gi, "_");
+
+export const dossierFileName = (dossier: ArchivedDossier, extension: string) =>
+  `psyche7_${fileSafe(dossier.username)}_${dossier.completedAt.slice(0, 10)}.${extension}`;
+
+export const exportDossierJSON = (dossier: ArchivedDossier): string => {
+  const doc: DossierExport = {
+    schemaVersion: DOSSIER_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    dossier,
+  };
+  return JSON.stringify(doc, null, 2);
+};
+
+// Checks one imported answer field by field; anything else is dropped rather than trusted
+export const readAnswer = (raw: unknown): Answer | null => {
+  if (!isObject(raw)) return null;
+  const { questionId, questionText, selectedOption, dimension, optionIndex, weights, timeTaken, timedOut, response } = raw;
+  if (typeof questionId !== "number" || typeof questionText !== "string" || typeof selectedOption !== "string") return null;
+  if (typeof dimension !== "string" || !Number.isInteger(optionIndex) || typeof timeTaken !== "number" || timeTaken < 0) return null;
+  if (!isObject(weights) || Object.values(weights).some(w => typeof w !== "number" || !Number.isFinite(w))) return null;
+  if (timedOut !== undefined && !TIMEOUT_ACTIONS.includes(timedOut as TimeoutAction)) return null;
+  if (response !== undefined && !(isObject(response) && QUESTION_TYPES.includes(response.type as QuestionType))) return null;
+
+  return {
+    questionId,
+    questionText,
+    selectedOption,
+    dimension,
+    optionIndex: optionIndex as number,
+    weights: weights as DimensionWeights,
+    timeTaken,
+    ...(timedOut !== undefined && { timedOut: timedOut as TimeoutAction }),
+    ...(response !== undefined && { response: response as unknown as AnswerResponse }),
+  };
+};
+
+/**
+ * Reads an exported dossier into the archive of `username`. A dossier exported under
+ * another codename is rejected, and the import always gets a fresh id so it can never
+ * overwrite a stored dossier.
+ */
+export const importDossierJSON = (text: string, username: string): ArchivedDossier => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new DossierImportError("File is not valid JSON.");
+  }
+
+  if (!isObject(parsed) || typeof parsed.schemaVersion !== "number" || !isObject(parsed.dossier)) {
+    throw new DossierImportError("File is not a PSYCHE-7 dossier export.");
+  }
+  const schemaVersion = parsed.schemaVersion;
+  if (schemaVersion > DOSSIER_SCHEMA_VERSION) {
+    throw new DossierImportError(`Dossier schema v${schemaVersion} is newer than this terminal supports (v${DOSSIER_SCHEMA_VERSION}).`);
+  }
+
+  let doc: Record<string, unknown> = parsed;
+  for (let version = schemaVersion; version < DOSSIER_SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new DossierImportError(`No migration from dossier schema v${version}.`);
+    doc = migrate(doc);
+  }
+
+  const dossier = doc.dossier;
+  if (!isObject(dossier) || !Array.isArray(dossier.answers) || typeof dossier.username !== "string") {
+    throw new DossierImportError("Dossier is missing its answer record.");
+  }
+  if (dossier.username !== username) {
+    throw new DossierImportError(`Dossier belongs to codename ${dossier.username}, not ${username}.`);
+  }
+
+  const answers = dossier.answers.map(readAnswer);
+  const malformed = answers.findIndex(a => !a);
+  if (malformed >= 0) {
+    throw new DossierImportError(`Answer ${malformed + 1} of the record is malformed.`);
+  }
+
+  let report;
+  try {
+    report = validateReport(dossier.report).value;
+  } catch (error) {
+    throw new DossierImportError(`Dossier report is invalid: ${(error as Error).message}`);
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    username,
+    report,
+    answers: answers as Answer[],
+    questions: Array.isArray(dossier.questions) ? (dossier.questions as Question[]) : [],
+    proctoring: dossier.proctoring as ProctorSettings | undefined,
+    locale: isLocale(dossier.locale) ? dossier.locale : undefined,
+    protocol: dossier.protocol as AssessmentProtocol | undefined,
+    questionGeneration: dossier.questionGeneration as GenerationMetadata | undefined,
+    interrogation: readInterrogation(dossier.interrogation),
+    startedAt: typeof dossier.startedAt === "string" ? dossier.startedAt : report.generatedAt,
+    completedAt: typeof dossier.completedAt === "string" ? dossier.completedAt : report.generatedAt,
+  };
+};
+
+// Keeps the well-formed turns of an imported transcript
+const readInterrogation = (raw: unknown): InterrogationMessage[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.filter((m): m is InterrogationMessage =>
+    isObject(m) && (m.role === "interrogator" || m?.role === "profiler") && typeof m.text === "string" && typeof m.sentAt === "string"
+  );
+};
+
+const speaker = (message: InterrogationMessage) => (message.role === "interrogator" ? "INTERROGATOR" : "PSYCHE-7");
+
+const bulletList = (items: string[], prefix = "-") =>
+  items.length > 0 ? items.map(item => `${prefix} ${item}`).join("\n") : "_None recorded._";
+
+export const exportDossierMarkdown = (dossier: ArchivedDossier): string => {
+  const { report, answers } = dossier;
+  const dimensions = Object.entries(report.dimensionScores || {});
+
+  return [
+    `# DOSSIER: ${report.subjectName}`,
+    "",
+    `> CLASSIFIED // Generated ${report.generatedAt} // Scoring v${report.scoringVersion}`,
+    "",
+    ...(report.protocolName ? [`**Protocol:** ${report.protocolName}  `] : []),
+    ...(dossier.locale ? [`**Language:** ${LOCALES[dossier.locale].language}  `] : []),
+    ...(report.generation
+      ? [`**Generated by:** ${report.generation.provider}/${report.generation.model}, prompt ${report.generation.promptVersion}, temperature ${report.generation.temperature}, seed ${report.generation.seed}  `]
+      : []),
+    `**Stability score:** ${report.score}/100  `,
+    `**Algorithm confidence:** ${report.confidenceScore}%`,
+    "",
+    "## Dominant Traits",
+    bulletList(report.dominantTraits),
+    "",
+    "## Dimension Scores",
+    "| Dimension | Score | Rationale |",
+    "| --- | ---: | --- |",
+    ...dimensions.map(([name, score]) => `| ${name} | ${score} | ${(report.dimensionRationale?.[name] || "").replace(/\|/g, "\\|")} |`),
+    "",
+    "## Behavioral Analysis",
+    bulletList(report.behavioralTendencies),
+    "",
+    "## Operational Strengths",
+    bulletList(report.strengths),
+    "",
+    "## Vulnerabilities",
+    bulletList(report.weaknesses),
+    "",
+    "## Risk Assessment",
+    bulletList(report.riskIndicators),
+    "",
+    ...(report.integrity ? [
+      "## Response Integrity",
+      `**Integrity score:** ${report.integrity.integrityScore}/100  `,
+      `**Median response:** ${(report.integrity.medianResponseMs / 1000).toFixed(1)}s`,
+      "",
+      bulletList(report.integrity.flags.map(f => `[${f.type.toUpperCase()}] ${f.detail}`)),
+      "",
+    ] : []),
+    "## Response Log",
+    "| # | Dimension | Question | Choice | Time (s) |",
+    "| ---: | --- | --- | --- | ---: |",
+    ...answers.map((a, i) =>
+      `| ${i + 1} | ${a.dimension} | ${a.questionText.replace(/\|/g, "\\|")} | ${describeChoice(a).replace(/\|/g, "\\|")} | ${(a.timeTaken / 1000).toFixed(1)} |`
+    ),
+    "",
+    ...(dossier.interrogation?.length ? [
+      "## Interrogation Transcript",
+      "Citations such as [Q3] refer to the numbered responses above.",
+      "",
+      ...dossier.interrogation.map(m => `**${speaker(m)}** (${m.sentAt}): ${m.text}\n`),
+    ] : []),
+    "_This evaluation is AI-generated and for entertainment purposes only. Do not use for clinical diagnosis._",
+    "",
+  ].join("\n");
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const htmlList = (items: string[], marker: string) =>
+  items.length > 0
+    ? `<ul>${items.map(item => `<li><span class="marker">${marker}</span> ${escapeHtml(item)}</li>`).join("")}</ul>`
+    : `<p class="dim">NONE RECORDED.</p>`;
+
+// Print styles keep the terminal palette; colour adjustment is forced so backgrounds survive printing
+const PRINT_STYLES = `
+  @page { margin: 12mm; }
+  * { -webkit-print-color-adjust: exact; print-color-adjust: exact; box-sizing: border-box; }
+  body { background: #050505; color: #0f0; font-family: "Fira Code", "Courier New", monospace; font-size: 11px; margin: 0; padding: 24px; }
+  h1 { font-size: 24px; color: #fff; margin: 0 0 4px; letter-spacing: 2px; }
+  h2 { font-size: 12px; color: #0f0; border-bottom: 1px solid rgba(0,255,0,0.3); padding-bottom: 4px; margin: 20px 0 8px; letter-spacing: 2px; }
+  .header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 1px solid rgba(0,255,0,0.3); padding-bottom: 12px; }
+  .score { font-size: 32px; color: #0ff; }
+  .dim { color: #0a0; }
+  .risk { color: #ff3333; }
+  ul { list-style: none; padding: 0; margin: 0; }
+  li { margin-bottom: 4px; }
+  .marker { color: #0a0; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { text-align: left; padding: 3px 6px; border-bottom: 1px solid rgba(0,255,0,0.15); vertical-align: top; }
+  th { color: #0a0; font-weight: normal; }
+  .footer { margin-top: 24px; font-size: 9px; color: #666; text-align: center; }
+`;
+
+export const renderPrintableDossier = (dossier: ArchivedDossier): string => {
+  const { report, answers } = dossier;
+  return `<!DOCTYPE html>
+<html lang="${dossier.locale || "en"}"><head><meta charset="UTF-8" /><title>DOSSIER ${escapeHtml(report.subjectName)}</title><style>${PRINT_STYLES}</style></head>
+<body>
+  <div class="header">
+    <div>
+      <h1>DOSSIER: ${escapeHtml(report.subjectName)}</h1>
+      <div class="dim">CLASSIFIED // ${escapeHtml(report.generatedAt)} // SCORING v${escapeHtml(report.scoringVersion)}${report.protocolName ? ` // PROTOCOL ${escapeHtml(report.protocolName)}` : ""}${dossier.locale ? ` // ${LOCALES[dossier.locale].label}` : ""}</div>
+    </div>
+    <div style="text-align:right">
+      <div class="dim">STABILITY SCORE</div>
+      <div class="score">${report.score}/100</div>
+      <div class="dim">${report.confidenceScore}% VERIFIED</div>
+    </div>
+  </div>
+  <h2>[DOMINANT TRAITS]</h2>${htmlList(report.dominantTraits, "::")}
+  <h2>[DIMENSION SCORES]</h2>
+  <table>${Object.entries(report.dimensionScores || {}).map(([name, score]) => `<tr><td>${escapeHtml(name)}</td><td style="text-align:right">${score}</td><td class="dim">${escapeHtml(report.dimensionRationale?.[name] || "")}</td></tr>`).join("")}</table>
+  <h2>[BEHAVIORAL ANALYSIS]</h2>${htmlList(report.behavioralTendencies, "::")}
+  <h2>[OPERATIONAL STRENGTHS]</h2>${htmlList(report.strengths, "+")}
+  <h2>[VULNERABILITIES]</h2>${htmlList(report.weaknesses, "!")}
+  <h2 class="risk">[RISK ASSESSMENT]</h2><div class="risk">${htmlList(report.riskIndicators, "WARNING:")}</div>
+  ${report.integrity ? `<h2>[RESPONSE INTEGRITY ${report.integrity.integrityScore}/100]</h2>${htmlList(report.integrity.flags.map(f => f.detail), "//")}` : ""}
+  <h2>[RESPONSE LOG]</h2>
+  <table>
+    <tr><th>#</th><th>DIMENSION</th><th>QUERY</th><th>RESPONSE</th><th>TIME</th></tr>
+    ${answers.map((a, i) => `<tr><td>${i + 1}</td><td>${escapeHtml(a.dimension)}</td><td>${escapeHtml(a.questionText)}</td><td>${escapeHtml(describeChoice(a))}</td><td>${(a.timeTaken / 1000).toFixed(1)}s</td></tr>`).join("")}
+  </table>
+  ${dossier.interrogation?.length ? `<h2>[INTERROGATION TRANSCRIPT]</h2>${dossier.interrogation.map(m => `<p><span class="dim">${speaker(m)} ::</span> ${escapeHtml(m.text)}</p>`).join("")}` : ""}
+  <div class="footer">This evaluation is AI-generated and for entertainment purposes only. Do not use for clinical diagnosis.</div>
+</body></html>`;
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Opens the print-styled dossier in a new window; the browser's print dialog can save it as
+ * PDF. Returns false when a popup blocker stopped the window from opening.
+ */
+export const printDossier = (dossier: ArchivedDossier): boolean => {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return false;
+  printWindow.document.write(renderPrintableDossier(dossier));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
@@ -1,148 +1,333 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Question, Answer, PersonalityReport } from "../types";
-
-// Helper to ensure API Key exists
-const getAIClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API_KEY not found in environment.");
+import { Question, Answer, PersonalityReport, AssessmentProtocol, ArchivedDossier, CompatibilityReport, GenerationMetadata, InterrogationMessage, Locale } from "../types";
+import { AIConfig, AIServiceError, getAIConfig, getAIProvider, runAIRequest } from "./providers";
+import { DEFAULT_DIMENSIONS } from "./dimensions";
+import { CoreTask, CURRENT_PROMPT_VERSION, getPromptTemplate } from "./prompts";
+import { scoreAnswers, SCORING_VERSION } from "./scoringEngine";
+import { analyzeIntegrity } from "./integrity";
+import { buildAIRequest, compareSubjects, INTERROGATION_CONTEXT_TURNS } from "./aiTasks";
+import { ModelOutputError, parseModelJSON, validateAnalysis, validateCompatibility, validateInterrogation, validateQuestions, validateReport, ValidationResult } from "./validation";
+
+// Malformed model output is retried this many times in total before surfacing
+const MAX_ATTEMPTS = 3;
+
+// Re-requests output until it passes validation. Transport failures are retried by
+// runAIRequest; anything still failing surfaces as an AIServiceError.
+const requestValidated = async <T>(
+  request: (signal: AbortSignal) => Promise<string>,
+  validate: (raw: unknown) => ValidationResult<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  let lastError: ModelOutputError | null = null;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const { value, repairs } = validate(parseModelJSON(await runAIRequest(request, signal)));
+      if (repairs.length > 0) console.warn("Model output repaired:", repairs);
+      return value;
+    } catch (error) {
+      if (!(error instanceof ModelOutputError)) throw error;
+      console.warn(`Malformed model output (attempt ${attempt}/${MAX_ATTEMPTS}):`, error.message, error.issues);
+      lastError = error;
+    }
   }
-  return new GoogleGenAI({ apiKey });
+
+  throw new AIServiceError("malformed", lastError!.message, { cause: lastError });
 };
 
-export const generateAssessmentQuestions = async (count: number): Promise<Question[]> => {
-  const ai = getAIClient();
-  
-  const systemInstruction = `
-    You are PSYCHE-7, an advanced psychological assessment engine designed to generate a unique set of multiple-choice questions for a classified evaluation system.
-
-    OBJECTIVES:
-    1. Generate ${count} distinct, high-quality multiple-choice questions.
-    2. Ensure balanced coverage across these dimensions: Emotional Stability, Empathy, Autonomy, Stress Resilience, Risk Tolerance, Social Dependence, Control/Dominance, Analytical vs Emotional Decision-Making, Moral Flexibility.
-    3. Questions should be phrased formally, clinically, or slightly abstractly. The tone should be serious and investigative.
-    4. Provide 4 options for each question. No answer should be objectively correct or incorrect.
-    5. Ensure variety to avoid repetition.
-    6. Ensure the questions feel like a "psychological test" or "security clearance evaluation".
-  `;
-
-  const schema: Schema = {
-    type: Type.ARRAY,
-    items: {
-      type: Type.OBJECT,
-      properties: {
-        id: { type: Type.INTEGER },
-        text: { type: Type.STRING },
-        dimension: { type: Type.STRING },
-        options: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING }
-        }
-      },
-      required: ["id", "text", "dimension", "options"],
-    }
+// A fresh random seed per run, recorded so the run can be replayed. Kept well inside int32
+// so per-batch offsets remain valid seeds.
+export const newSeed = () => Math.floor(Math.random() * 2 ** 30);
+
+// The active backend, optionally with another model for replays
+const resolveConfig = (model?: string): AIConfig => {
+  const config = getAIConfig();
+  return model ? { ...config, model } : config;
+};
+
+/**
+ * Describes how `task` would run under the given prompt version and model, for recording
+ * on question sets and reports. Throws for an unknown prompt version.
+ */
+export const generationMetadata = (
+  task: CoreTask,
+  { seed, promptVersion = CURRENT_PROMPT_VERSION, model }: { seed: number; promptVersion?: string; model?: string }
+): GenerationMetadata => {
+  const config = resolveConfig(model);
+  return {
+    provider: config.provider,
+    model: config.model,
+    promptVersion,
+    temperature: getPromptTemplate(promptVersion).temperature[task],
+    seed,
   };
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-flash-latest",
-      contents: `Generate ${count} psychological assessment questions.`,
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: schema,
-      },
-    });
+export interface GenerationOptions {
+  dimensions?: string[]; // target dimension for each requested question, in order
+  avoid?: string[]; // texts of questions already asked, to prevent repeats
+  offset?: number; // questions generated by earlier batches
+  onProgress?: (received: number) => void; // questions seen so far in the streamed response
+  signal?: AbortSignal;
+  protocol?: AssessmentProtocol; // custom dimensions and persona; the standard scan when absent
+  locale?: Locale; // language of question and option text; English when absent
+  seed?: number; // sampling seed for this batch
+  promptVersion?: string; // prompt template revision; the current one when absent
+}
+
+// Counts question objects that have started arriving in partial JSON
+const countStreamedQuestions = (partial: string) => (partial.match(/"dimension"\s*:/g) || []).length;
+
+export const generateAssessmentQuestions = async (count: number, options: GenerationOptions = {}): Promise<Question[]> => {
+  const provider = getAIProvider();
+  const { dimensions, avoid = [], offset = 0, onProgress, signal, protocol, locale, seed = newSeed(), promptVersion } = options;
+  const names = (protocol?.dimensions || DEFAULT_DIMENSIONS).map(d => d.name);
+  const formats = protocol?.questionTypes?.length ? protocol.questionTypes : undefined;
+  const request = buildAIRequest({
+    task: "generateQuestions",
+    input: { count, offset, dimensions, avoid, definitions: protocol?.dimensions, persona: protocol?.persona, locale, formats },
+  }, promptVersion);
 
-    const rawText = response.text;
-    if (!rawText) throw new Error("No data received from construct.");
-    
-    return JSON.parse(rawText) as Question[];
+  try {
+    return await requestValidated(
+      requestSignal => provider.streamJSON(
+        { ...request, signal: requestSignal, seed },
+        partial => onProgress?.(Math.min(count, countStreamedQuestions(partial)))
+      ),
+      raw => validateQuestions(raw, { expectedCount: count, allowedDimensions: names, formats }),
+      signal
+    );
   } catch (error) {
     console.error("Generation Protocol Failed:", error);
     throw error;
   }
 };
 
-export const analyzePersonality = async (answers: Answer[], username: string): Promise<PersonalityReport> => {
-  const ai = getAIClient();
-
-  const systemInstruction = `
-    You are PSYCHE-7, a classified psychological profiler and evaluation engine.
-
-    YOUR TASK:
-    Analyze the provided question/answer pairs to build a comprehensive personality dossier.
-    
-    EVALUATION PROTOCOLS:
-    1. Evaluate user responses across hidden personality axes including: Emotional stability, Empathy, Autonomy, Stress resilience, Risk tolerance, Social dependence, Control/Dominance, Analytical vs Emotional decision-making, and Moral flexibility.
-    2. Assign weighted values to each answer choice internally to derive traits.
-    3. Track response behavior, including the 'timeTaken' (in milliseconds) for each answer. 
-       - Very fast answers may indicate impulsivity or high certainty.
-       - Slow answers may indicate hesitation, calculation, or dishonesty.
-       - Inconsistent timing may suggest instability.
-    4. Compute a final 'stability score' (1-100). 100 = Optimal Stability/Ideal Agent. 1 = Highly Volatile/Risk.
-    5. Classify the user into an archetype derived from axis combinations.
-    
-    REPORT FORMAT:
-    - Tone: Formal, Analytical, Clinical, "Classified Government Dossier".
-    - Avoid casual language, humor, or emotional phrasing.
-    - Present findings as analytical observations.
-    
-    OUTPUT SCHEMA REQUIREMENTS:
-    - 'score': The stability score (1-100).
-    - 'dominantTraits': List of 3-5 key observed traits.
-    - 'strengths': List of psychological assets.
-    - 'weaknesses': List of vulnerabilities.
-    - 'behavioralTendencies': Observations on decision-making patterns.
-    - 'riskIndicators': Cautionary notes based on volatile or concerning patterns.
-    - 'confidenceScore': A metric (1-100) indicating how reliable this assessment is based on answer consistency and timing.
-  `;
-
-  const schema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-      score: { type: Type.INTEGER, description: "Psychological stability score 1-100" },
-      dominantTraits: { type: Type.ARRAY, items: { type: Type.STRING } },
-      strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-      weaknesses: { type: Type.ARRAY, items: { type: Type.STRING } },
-      behavioralTendencies: { type: Type.ARRAY, items: { type: Type.STRING } },
-      riskIndicators: { type: Type.ARRAY, items: { type: Type.STRING } },
-      confidenceScore: { type: Type.INTEGER, description: "Confidence in analysis 1-100" },
-    },
-    required: ["score", "dominantTraits", "strengths", "weaknesses", "behavioralTendencies", "riskIndicators", "confidenceScore"]
-  };
+export interface AnalysisOptions {
+  signal?: AbortSignal;
+  protocol?: AssessmentProtocol; // custom dimensions and persona; the standard scan when absent
+  locale?: Locale; // language of the narrative; English when absent
+  seed?: number; // a fresh seed when absent
+  promptVersion?: string; // prompt template revision; the current one when absent
+  model?: string; // overrides the configured model, for replays
+}
+
+// `username` is only written to the report; the prompt never includes it
+export const analyzePersonality = async (
+  answers: Answer[],
+  username: string,
+  { signal, protocol, locale, seed = newSeed(), promptVersion = CURRENT_PROMPT_VERSION, model }: AnalysisOptions = {}
+): Promise<PersonalityReport> => {
+  const provider = getAIProvider(resolveConfig(model));
+  const definitions = protocol?.dimensions || DEFAULT_DIMENSIONS;
 
-  // Prepare data for the model
-  // We include timeTaken to allow the model to analyze response behavior
-  const inputData = JSON.stringify(answers.map(a => ({
-    dimension: a.dimension,
-    question: a.questionText,
-    choice: a.selectedOption,
-    timeTakenMs: a.timeTaken
-  })));
+  // Numbers are computed locally so identical answers always yield identical scores
+  const integrity = analyzeIntegrity(answers);
+  const scores = scoreAnswers(answers, definitions, integrity);
+
+  const request = buildAIRequest({
+    task: "analyzePersonality",
+    input: { answers, definitions: protocol?.dimensions, persona: protocol?.persona, locale, timing: protocol?.timing },
+  }, promptVersion);
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-flash-latest", // Use Flash Latest for stability
-      contents: `Analyze this subject data: ${inputData}`,
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: schema,
+    const analysis = await requestValidated(
+      requestSignal => provider.generateJSON({ ...request, signal: requestSignal, seed }),
+      raw => validateAnalysis(raw, definitions.map(d => d.name)),
+      signal
+    );
+
+    return validateReport({
+      ...analysis,
+      ...scores,
+      integrity,
+      scoringVersion: SCORING_VERSION,
+      subjectName: username,
+      protocolName: protocol?.name,
+      generation: {
+        provider: provider.name,
+        model: provider.model,
+        promptVersion: request.promptVersion,
+        temperature: request.temperature!,
+        seed,
       },
-    });
+      generatedAt: new Date().toISOString(),
+    }, definitions.map(d => d.name)).value;
+  } catch (error) {
+    console.error("Analysis Protocol Failed:", error);
+    throw error;
+  }
+};
 
-    const rawText = response.text;
-    if (!rawText) throw new Error("Analysis Protocol Failed.");
+/**
+ * Re-runs the analysis of a stored dossier under another prompt version and/or model, for
+ * side-by-side comparison. The original seed is reused unless one is given. Nothing is saved.
+ */
+export const replayAnalysis = async (
+  dossier: ArchivedDossier,
+  { promptVersion, model, seed, signal }: { promptVersion?: string; model?: string; seed?: number; signal?: AbortSignal } = {}
+): Promise<PersonalityReport> => {
+  if (dossier.report.protocolName && !dossier.protocol) {
+    throw new Error(`Dossier has no snapshot of protocol "${dossier.report.protocolName}"; it cannot be replayed.`);
+  }
+  return analyzePersonality(dossier.answers, dossier.username, {
+    signal,
+    protocol: dossier.protocol,
+    locale: dossier.locale,
+    seed: seed ?? dossier.report.generation?.seed,
+    promptVersion,
+    model,
+  });
+};
+
+// The reply string as far as it has arrived in a partial JSON object, unescaped
+const streamedReply = (partial: string) => {
+  const start = partial.match(/"reply"\s*:\s*"/);
+  if (!start) return "";
+  const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+  let text = "";
+  for (let i = start.index! + start[0].length; i < partial.length; i++) {
+    const char = partial[i];
+    if (char === '"') break;
+    if (char !== "\\") {
+      text += char;
+      continue;
+    }
+    const next = partial[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = partial.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      text += escapes[next] ?? next;
+      i++;
+    }
+  }
+  return text;
+};
 
-    const analysis = JSON.parse(rawText);
+export interface InterrogationOptions {
+  signal?: AbortSignal;
+  locale?: Locale; // language of the reply; English when absent
+  onReply?: (text: string) => void; // the reply so far, as it streams in
+}
+
+/**
+ * Puts a question about a dossier to the profiler, with the dossier's findings, answers and
+ * the earlier turns of `transcript` as context. Resolves to the profiler's reply, citing
+ * answers by their 1-based number. The subject's codename is never sent.
+ */
+export const interrogateDossier = async (
+  dossier: ArchivedDossier,
+  transcript: InterrogationMessage[],
+  question: string,
+  { signal, locale, onReply }: InterrogationOptions = {}
+): Promise<InterrogationMessage> => {
+  const provider = getAIProvider();
+  const { report, answers, protocol } = dossier;
+  const seed = newSeed();
+  // Only the findings are picked, so the codename stays out of the request
+  const findings = {
+    stabilityScore: report.score,
+    confidenceScore: report.confidenceScore,
+    dimensionScores: report.dimensionScores,
+    dimensionRationale: report.dimensionRationale,
+    dominantTraits: report.dominantTraits,
+    strengths: report.strengths,
+    weaknesses: report.weaknesses,
+    behavioralTendencies: report.behavioralTendencies,
+    riskIndicators: report.riskIndicators,
+    integrity: report.integrity,
+  };
+  const request = buildAIRequest({
+    task: "interrogate",
+    input: {
+      question,
+      transcript: transcript.slice(-INTERROGATION_CONTEXT_TURNS).map(({ role, text }) => ({ role, text })),
+      answers,
+      findings,
+      definitions: protocol?.dimensions,
+      persona: protocol?.persona,
+      locale,
+    },
+  });
+
+  try {
+    const { reply, citations } = await requestValidated(
+      requestSignal => provider.streamJSON(
+        { ...request, signal: requestSignal, seed },
+        partial => onReply?.(streamedReply(partial))
+      ),
+      raw => validateInterrogation(raw, answers.length),
+      signal
+    );
 
     return {
-      ...analysis,
-      subjectName: username,
+      role: "profiler",
+      text: reply,
+      citations,
+      generation: { provider: provider.name, model: provider.model, promptVersion: request.promptVersion, temperature: request.temperature ?? 0, seed },
+      sentAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error("Interrogation Protocol Failed:", error);
+    throw error;
+  }
+};
+
+// Codenames alone are ambiguous when one subject appears more than once
+const subjectLabels = (dossiers: ArchivedDossier[], aliases: Record<string, string> = {}) =>
+  dossiers.map(d => {
+    const name = aliases[d.username] || d.username;
+    return dossiers.filter(other => other.username === d.username).length > 1 ? `${name} (${d.completedAt.slice(0, 10)})` : name;
+  });
+
+export interface CompatibilityOptions {
+  signal?: AbortSignal;
+  aliases?: Record<string, string>; // codename -> pseudonym sent to the provider in its place
+}
+
+export const analyzeCompatibility = async (
+  dossiers: ArchivedDossier[],
+  { signal, aliases = {} }: CompatibilityOptions = {}
+): Promise<CompatibilityReport> => {
+  if (dossiers.length < 2) throw new Error("Select at least two dossiers to compare.");
+
+  const provider = getAIProvider();
+  const subjects = subjectLabels(dossiers);
+  // Pseudonymous subjects are named by alias in the request and restored in the narrative
+  const sentSubjects = subjectLabels(dossiers, aliases);
+  const restore = (text: string) => Object.entries(aliases).reduce((out, [name, alias]) => out.split(alias).join(name), text);
+  const summaries = dossiers.map((d, i) => ({
+    subject: sentSubjects[i],
+    stabilityScore: d.report.score,
+    dimensionScores: d.report.dimensionScores,
+    dominantTraits: d.report.dominantTraits,
+    riskIndicators: d.report.riskIndicators,
+  }));
+  const { mode, score } = compareSubjects(summaries);
+  const request = buildAIRequest({ task: "analyzeCompatibility", input: { subjects: summaries } });
+
+  try {
+    const narrative = await requestValidated(
+      requestSignal => provider.generateJSON({ ...request, signal: requestSignal }),
+      validateCompatibility,
+      signal
+    );
+
+    return {
+      summary: restore(narrative.summary),
+      synergies: narrative.synergies.map(restore),
+      frictionPoints: narrative.frictionPoints.map(restore),
+      recommendations: narrative.recommendations.map(restore),
+      mode,
+      subjects,
+      compatibilityScore: score,
       generatedAt: new Date().toISOString(),
     };
   } catch (error) {
-    console.error("Analysis Protocol Failed:", error);
+    console.error("Compatibility Protocol Failed:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,41 @@
+import { Locale } from "../types";
+import en from "../data/locales/en.json";
+import es from "../data/locales/es.json";
+
+const LOCALE_KEY = "psyche7_locale";
+
+export type MessageKey = keyof typeof en;
+
+export const LOCALES: Record<Locale, { label: string; language: string; intl: string }> = {
+  en: { label: "EN", language: "English", intl: "en-US" },
+  es: { label: "ES", language: "Spanish", intl: "es-ES" },
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en, es };
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+// Saved choice first, then the browser language, then English
+export const loadLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(stored)) return stored;
+  const browser = (typeof navigator !== "undefined" ? navigator.language : "").slice(0, 2);
+  return isLocale(browser) ? browser : "en";
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_KEY, locale);
+};
+
+// Looks up a message and fills `{name}` placeholders; missing keys fall back to English
+export const translate = (locale: Locale, key: MessageKey, params: Record<string, string | number> = {}) =>
+  (MESSAGES[locale][key] ?? en[key]).replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? String(params[name]) : match
+  );
+
+export const formatDate = (locale: Locale, iso: string, options: Intl.DateTimeFormatOptions = { dateStyle: "medium", timeStyle: "short" }) =>
+  new Intl.DateTimeFormat(LOCALES[locale].intl, options).format(new Date(iso));
+
+export const formatNumber = (locale: Locale, value: number, options: Intl.NumberFormatOptions = { maximumFractionDigits: 0 }) =>
+  new Intl.NumberFormat(LOCALES[locale].intl, options).format(value);
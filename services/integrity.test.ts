@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { Answer } from "../types";
+import { analyzeIntegrity } from "./integrity";
+
+const answer = (questionId: number, fields: Partial<Answer> = {}): Answer => ({
+  questionId,
+  questionText: "A colleague takes credit for your work. You:",
+  selectedOption: "Raise it with them privately.",
+  dimension: "Empathy",
+  optionIndex: questionId % 4,
+  weights: { Empathy: 1 },
+  timeTaken: 6000,
+  ...fields,
+});
+
+// Ten varied, unhurried answers that no check should flag
+const clean = Array.from({ length: 10 }, (_, i) => answer(i + 1));
+
+const flagTypes = (answers: Answer[]) => analyzeIntegrity(answers).flags.map(f => f.type);
+
+describe("analyzeIntegrity", () => {
+  it("passes varied, unhurried answers", () => {
+    const report = analyzeIntegrity(clean);
+    expect(report.flags).toEqual([]);
+    expect(report).toMatchObject({ integrityScore: 100, medianResponseMs: 6000 });
+  });
+
+  it("flags answers faster than they can be read", () => {
+    const answers = clean.map(a => (a.questionId <= 2 ? { ...a, timeTaken: 900 } : a));
+    const report = analyzeIntegrity(answers);
+    expect(report.speedingCount).toBe(2);
+    expect(report.flags.map(f => f.questionIds)).toEqual([[1], [2]]);
+    expect(report.integrityScore).toBe(92);
+  });
+
+  it("flags long pauses", () => {
+    const answers = clean.map(a => (a.questionId === 5 ? { ...a, timeTaken: 60000 } : a));
+    expect(analyzeIntegrity(answers).longPauseCount).toBe(1);
+    expect(flagTypes(answers)).toEqual(["long-pause"]);
+  });
+
+  it("flags runs of the same option", () => {
+    const answers = clean.map(a => (a.questionId >= 3 && a.questionId <= 8 ? { ...a, optionIndex: 0 } : a));
+    const report = analyzeIntegrity(answers);
+    expect(report.longestStraightLine).toBe(6);
+    expect(report.flags[0]).toMatchObject({ type: "straight-lining", questionIds: [3, 4, 5, 6, 7, 8] });
+  });
+
+  it("does not join the same position across formats into a run", () => {
+    const answers = clean.map(a => ({ ...a, optionIndex: 0, ...(a.questionId % 2 && { response: { type: "likert" as const, value: 1 } }) }));
+    expect(analyzeIntegrity(answers).longestStraightLine).toBe(0);
+  });
+
+  it("flags opposite answers on the same dimension", () => {
+    const answers = [...clean.slice(0, 8), answer(9, { weights: { Empathy: 2 } }), answer(10, { weights: { Empathy: -2 } })];
+    const report = analyzeIntegrity(answers);
+    expect(report.inconsistentPairs).toBe(1);
+    expect(report.flags).toEqual([expect.objectContaining({ type: "inconsistency", questionIds: [9, 10] })]);
+  });
+
+  it("reports timeouts without counting them against any other check", () => {
+    const timedOut = [11, 12, 13, 14, 15].map(id => answer(id, { optionIndex: -1, weights: {}, timeTaken: 200, timedOut: "skip" }));
+    const report = analyzeIntegrity([...clean, ...timedOut]);
+    expect(report).toMatchObject({ integrityScore: 100, timeoutCount: 5, speedingCount: 0, medianResponseMs: 6000 });
+    expect(report.flags).toEqual([expect.objectContaining({ type: "timeout", questionIds: [11, 12, 13, 14, 15] })]);
+  });
+});
@@ -0,0 +1,134 @@
+import { Answer, IntegrityFlag, IntegrityReport } from "../types";
+
+// Thresholds for the response-integrity checks
+const MIN_SPEEDING_MS = 1500;
+const MS_PER_WORD = 100; // skim-reading pace; anything faster cannot have been read
+const LONG_PAUSE_MS = 45000;
+const LONG_PAUSE_MEDIAN_FACTOR = 5;
+const STRAIGHT_LINE_RUN = 5;
+const OPPOSITE_WEIGHT_GAP = 4; // +2 vs -2 on the same dimension
+const MAX_REPORTED_PAIRS = 10;
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const wordCount = (answer: Answer) => `${answer.questionText} ${answer.selectedOption}`.split(/\s+/).length;
+
+const detectSpeeding = (answers: Answer[]): IntegrityFlag[] =>
+  answers
+    .filter(a => a.timeTaken < Math.max(MIN_SPEEDING_MS, wordCount(a) * MS_PER_WORD))
+    .map(a => ({
+      type: "speeding",
+      questionIds: [a.questionId],
+      detail: `Answered in ${(a.timeTaken / 1000).toFixed(1)}s, faster than the question can be read.`,
+    }));
+
+const detectLongPauses = (answers: Answer[], medianMs: number): IntegrityFlag[] => {
+  const threshold = Math.max(LONG_PAUSE_MS, medianMs * LONG_PAUSE_MEDIAN_FACTOR);
+  return answers
+    .filter(a => a.timeTaken > threshold)
+    .map(a => ({
+      type: "long-pause",
+      questionIds: [a.questionId],
+      detail: `Paused ${(a.timeTaken / 1000).toFixed(0)}s before answering.`,
+    }));
+};
+
+// Option position within its format, so a rating of 1 and option "A" never join a run
+const position = (a: Answer) => `${a.response?.type ?? "choice"}:${a.optionIndex}`;
+
+// Runs of the same option position (e.g. always "A", or always 4 on a scale); free-text answers have none
+const detectStraightLining = (all: Answer[]): IntegrityFlag[] => {
+  const answers = all.filter(a => a.optionIndex >= 0);
+  const flags: IntegrityFlag[] = [];
+  let start = 0;
+
+  for (let i = 1; i <= answers.length; i++) {
+    if (i < answers.length && position(answers[i]) === position(answers[start])) continue;
+    const run = answers.slice(start, i);
+    if (run.length >= STRAIGHT_LINE_RUN) {
+      flags.push({
+        type: "straight-lining",
+        questionIds: run.map(a => a.questionId),
+        detail: run[0].response?.type === "likert"
+          ? `Rated ${run[0].optionIndex + 1} ${run.length} times in a row.`
+          : `Selected option ${String.fromCharCode(65 + run[0].optionIndex)} ${run.length} times in a row.`,
+      });
+    }
+    start = i;
+  }
+
+  return flags;
+};
+
+// Pairs of questions on the same dimension answered at opposite extremes
+const detectInconsistency = (answers: Answer[]): IntegrityFlag[] => {
+  const flags: IntegrityFlag[] = [];
+  const byDimension: Record<string, Answer[]> = {};
+  answers.forEach(a => {
+    if (a.weights?.[a.dimension] !== undefined) (byDimension[a.dimension] ||= []).push(a);
+  });
+
+  Object.entries(byDimension).forEach(([dimension, group]) => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        if (Math.abs(group[i].weights[dimension] - group[j].weights[dimension]) >= OPPOSITE_WEIGHT_GAP) {
+          flags.push({
+            type: "inconsistency",
+            questionIds: [group[i].questionId, group[j].questionId],
+            detail: `Contradictory ${dimension} responses to Q${group[i].questionId} and Q${group[j].questionId}.`,
+          });
+        }
+      }
+    }
+  });
+
+  return flags;
+};
+
+// Questions a timed protocol closed before the subject answered; reported, not penalised
+const detectTimeouts = (answers: Answer[]): IntegrityFlag[] => {
+  const timedOut = answers.filter(a => a.timedOut);
+  return timedOut.length === 0 ? [] : [{
+    type: "timeout",
+    questionIds: timedOut.map(a => a.questionId),
+    detail: `Time ran out on ${timedOut.length} question(s).`,
+  }];
+};
+
+export const analyzeIntegrity = (answers: Answer[]): IntegrityReport => {
+  // The remaining checks describe choices the subject made, which a timed-out question was not
+  const responses = answers.filter(a => !a.timedOut);
+  const medianResponseMs = median(responses.map(a => a.timeTaken));
+  const speeding = detectSpeeding(responses);
+  const pauses = detectLongPauses(responses, medianResponseMs);
+  const straightLines = detectStraightLining(responses);
+  const inconsistencies = detectInconsistency(responses);
+  const timeouts = detectTimeouts(answers);
+
+  const total = Math.max(1, responses.length);
+  const straightLined = straightLines.reduce((sum, f) => sum + f.questionIds.length, 0);
+  const comparablePairs = Math.max(1, responses.length / 2);
+
+  // Each behaviour costs up to its share of the 100 points
+  const penalty =
+    40 * (speeding.length / total) +
+    30 * (straightLined / total) +
+    20 * Math.min(1, inconsistencies.length / comparablePairs) +
+    10 * (pauses.length / total);
+
+  return {
+    integrityScore: Math.min(100, Math.max(1, Math.round(100 - penalty))),
+    speedingCount: speeding.length,
+    longPauseCount: pauses.length,
+    longestStraightLine: straightLines.reduce((max, f) => Math.max(max, f.questionIds.length), 0),
+    inconsistentPairs: inconsistencies.length,
+    timeoutCount: answers.length - responses.length,
+    medianResponseMs: Math.round(medianResponseMs),
+    flags: [...speeding, ...pauses, ...straightLines, ...inconsistencies.slice(0, MAX_REPORTED_PAIRS), ...timeouts],
+  };
+};
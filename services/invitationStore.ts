@@ -0,0 +1,108 @@
+import { ArchivedDossier, Invitation, ReportSection } from "../types";
+import { MessageKey } from "./i18n";
+
+const INVITATIONS_KEY = "psyche7_invitations";
+// No 0/O or 1/I, so codes can be read out loud
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+export const REPORT_SECTION_LABELS: Record<ReportSection, MessageKey> = {
+  score: "proctor.sectionScore",
+  dimensionScores: "proctor.sectionDimensions",
+  dominantTraits: "proctor.sectionTraits",
+  strengths: "proctor.sectionStrengths",
+  weaknesses: "proctor.sectionWeaknesses",
+  behavioralTendencies: "proctor.sectionTendencies",
+  riskIndicators: "proctor.sectionRisks",
+  integrity: "proctor.sectionIntegrity",
+};
+
+export class InvitationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvitationError";
+  }
+}
+
+const readInvitations = (): Invitation[] => {
+  try {
+    return JSON.parse(localStorage.getItem(INVITATIONS_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const writeInvitations = (invitations: Invitation[]) => {
+  localStorage.setItem(INVITATIONS_KEY, JSON.stringify(invitations));
+};
+
+const generateCode = () =>
+  [...crypto.getRandomValues(new Uint8Array(CODE_LENGTH))].map(b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join("");
+
+// Newest first
+export const listInvitations = (): Invitation[] =>
+  readInvitations().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const createInvitation = (options: Omit<Invitation, "code" | "createdAt" | "redeemedBy" | "redeemedAt" | "revoked">): Invitation => {
+  const existing = new Set(readInvitations().map(i => i.code));
+  let code = generateCode();
+  while (existing.has(code)) code = generateCode();
+
+  const invitation: Invitation = { ...options, code, createdAt: new Date().toISOString() };
+  writeInvitations([...readInvitations(), invitation]);
+  return invitation;
+};
+
+// Throws unless `username` may still start an assessment with this code
+export const findOpenInvitation = (code: string, username: string): Invitation => {
+  const invitation = readInvitations().find(i => i.code === code.trim().toUpperCase());
+  if (!invitation) throw new InvitationError("Unknown invitation code.");
+  if (invitation.revoked) throw new InvitationError("Invitation has been revoked.");
+  if (invitation.redeemedBy) throw new InvitationError("Invitation has already been used.");
+  if (invitation.subject && invitation.subject !== username) throw new InvitationError("Invitation is addressed to another subject.");
+  return invitation;
+};
+
+export const redeemInvitation = (code: string, username: string) => {
+  writeInvitations(readInvitations().map(i =>
+    i.code === code ? { ...i, redeemedBy: username, redeemedAt: new Date().toISOString() } : i
+  ));
+};
+
+// Drops every invitation addressed to or redeemed by `username`
+export const deleteInvitationsFor = (username: string) => {
+  writeInvitations(readInvitations().filter(i => i.subject !== username && i.redeemedBy !== username));
+};
+
+export const revokeInvitation = (code: string) => {
+  writeInvitations(readInvitations().map(i => (i.code === code ? { ...i, revoked: true } : i)));
+};
+
+/**
+ * The subject's copy of a proctored dossier: withheld sections are emptied and listed in
+ * `redactedSections` so views can mark them. Dossiers without proctoring pass through.
+ */
+export const redactDossier = (dossier: ArchivedDossier): ArchivedDossier => {
+  const hidden = dossier.proctoring?.hiddenSections || [];
+  if (hidden.length === 0) return dossier;
+
+  const report = { ...dossier.report, redactedSections: hidden };
+  hidden.forEach(section => {
+    switch (section) {
+      case "score":
+        report.score = 0;
+        report.confidenceScore = 0;
+        break;
+      case "dimensionScores":
+        report.dimensionScores = {};
+        report.dimensionRationale = {};
+        break;
+      case "integrity":
+        report.integrity = undefined;
+        break;
+      default:
+        report[section] = [];
+    }
+  });
+  return { ...dossier, report };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { LeaderboardEntry, LeaderboardQuery } from "../types";
+import { DEFAULT_QUERY, queryLeaderboard } from "./leaderboardQuery";
+import { SCORING_VERSION } from "./scoringEngine";
+
+const NOW = Date.parse("2026-03-15T12:00:00.000Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+const entry = (id: string, score: number, daysAgo: number, fields: Partial<LeaderboardEntry> = {}): LeaderboardEntry => ({
+  id,
+  username: id.toUpperCase(),
+  score,
+  date: new Date(NOW - daysAgo * DAY).toISOString(),
+  questionCount: 20,
+  scoringVersion: SCORING_VERSION,
+  ...fields,
+});
+
+const entries = [
+  entry("old", 90, 40),
+  entry("week", 80, 3),
+  entry("today", 70, 0.5),
+  entry("tie-late", 80, 1.5),
+  entry("legacy", 99, 0, { scoringVersion: "1.0.0" }),
+  entry("long", 85, 2, { questionCount: 50 }),
+];
+
+const ids = (query: Partial<LeaderboardQuery>) => queryLeaderboard(entries, { ...DEFAULT_QUERY, ...query }, NOW).entries.map(e => e.id);
+
+describe("queryLeaderboard", () => {
+  it("ranks by score with earlier submissions winning ties", () => {
+    expect(ids({})).toEqual(["old", "long", "week", "tie-late", "today"]);
+  });
+
+  it("only ranks entries scored by the requested version", () => {
+    expect(ids({ scoringVersion: "1.0.0" })).toEqual(["legacy"]);
+  });
+
+  it("filters by question count", () => {
+    expect(ids({ questionCount: 50 })).toEqual(["long"]);
+  });
+
+  it("filters by time window", () => {
+    expect(ids({ window: "day" })).toEqual(["today"]);
+    expect(ids({ window: "week" })).toEqual(["long", "week", "tie-late", "today"]);
+  });
+
+  it("paginates after filtering", () => {
+    const page = queryLeaderboard(entries, { ...DEFAULT_QUERY, page: 2, pageSize: 2 }, NOW);
+    expect(page).toMatchObject({ total: 5, page: 2, pageSize: 2 });
+    expect(page.entries.map(e => e.id)).toEqual(["week", "tie-late"]);
+  });
+});
@@ -0,0 +1,85 @@
+import { LeaderboardEntry, LeaderboardPage, LeaderboardQuery, LeaderboardWindow, QuestionCount } from "../types";
+import { SCORING_VERSION } from "./scoringEngine";
+
+// Shared by the leaderboard server and the client's local fallback so both rank identically
+
+export const MAX_PAGE_SIZE = 50;
+
+// Only the fixed-depth standard scans are ranked, so every score is compared at the same depth
+export const RANKED_DEPTHS: number[] = [QuestionCount.SHORT, QuestionCount.MEDIUM, QuestionCount.FULL];
+
+const WINDOW_MS: Record<LeaderboardWindow, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  all: Infinity,
+};
+
+export const DEFAULT_QUERY: LeaderboardQuery = { page: 1, pageSize: 10, window: "all", scoringVersion: SCORING_VERSION };
+
+export const parseLeaderboardQuery = (params: URLSearchParams): LeaderboardQuery => {
+  const toInt = (value: string | null, fallback: number) => {
+    const parsed = parseInt(value || "", 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  const window = params.get("window") as LeaderboardWindow;
+  const questionCount = toInt(params.get("questionCount"), 0);
+
+  return {
+    page: toInt(params.get("page"), DEFAULT_QUERY.page),
+    pageSize: Math.min(MAX_PAGE_SIZE, toInt(params.get("pageSize"), DEFAULT_QUERY.pageSize)),
+    questionCount: questionCount || undefined,
+    window: Object.hasOwn(WINDOW_MS, window) ? window : DEFAULT_QUERY.window,
+    scoringVersion: params.get("scoringVersion") || DEFAULT_QUERY.scoringVersion,
+  };
+};
+
+export const toSearchParams = (query: LeaderboardQuery) => {
+  const params = new URLSearchParams({
+    page: String(query.page),
+    pageSize: String(query.pageSize),
+    window: query.window,
+    scoringVersion: query.scoringVersion,
+  });
+  if (query.questionCount) params.set("questionCount", String(query.questionCount));
+  return params;
+};
+
+// Highest score first; earlier submissions win ties
+export const rankEntries = (entries: LeaderboardEntry[]) =>
+  [...entries].sort((a, b) => b.score - a.score || a.date.localeCompare(b.date));
+
+export const queryLeaderboard = (entries: LeaderboardEntry[], query: LeaderboardQuery, now = Date.now()): LeaderboardPage => {
+  const since = now - WINDOW_MS[query.window];
+  const matching = rankEntries(entries).filter(entry =>
+    entry.scoringVersion === query.scoringVersion &&
+    (!query.questionCount || entry.questionCount === query.questionCount) &&
+    new Date(entry.date).getTime() >= since
+  );
+  const start = (query.page - 1) * query.pageSize;
+
+  return {
+    entries: matching.slice(start, start + query.pageSize),
+    total: matching.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+};
+
+// Returns a list of problems; empty when the submission is acceptable
+export const validateSubmission = (entry: Partial<LeaderboardEntry>): string[] => {
+  const problems: string[] = [];
+  if (typeof entry.username !== "string" || entry.username.trim().length < 3 || entry.username.length > 32) {
+    problems.push("username must be 3-32 characters");
+  }
+  if (!Number.isInteger(entry.score) || entry.score! < 1 || entry.score! > 100) {
+    problems.push("score must be an integer from 1 to 100");
+  }
+  if (!RANKED_DEPTHS.includes(entry.questionCount!)) {
+    problems.push(`questionCount must be one of ${RANKED_DEPTHS.join(", ")}`);
+  }
+  if (typeof entry.scoringVersion !== "string" || !entry.scoringVersion) {
+    problems.push("scoringVersion is required");
+  }
+  return problems;
+};
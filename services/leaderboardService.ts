@@ -0,0 +1,153 @@
+import { LeaderboardEntry, LeaderboardPage, LeaderboardQuery } from "../types";
+import { queryLeaderboard, toSearchParams } from "./leaderboardQuery";
+
+const LEADERBOARD_URL = process.env.LEADERBOARD_URL || "/api/leaderboard";
+const LOCAL_KEY = "psyche7_leaderboard_local";
+// Submissions made while the server was unreachable, replayed on the next successful contact
+const PENDING_KEY = "psyche7_leaderboard_pending";
+// Per-entry tokens the server issued on submission; they let this device delete its own entries
+const TOKENS_KEY = "psyche7_leaderboard_tokens";
+const REQUEST_TIMEOUT_MS = 4000;
+
+type Submission = Omit<LeaderboardEntry, "id" | "date">;
+// `localId` is the placeholder entry cached while the submission waits
+type PendingSubmission = Submission & { localId?: string };
+type SubmittedEntry = LeaderboardEntry & { deleteToken?: string };
+
+const readList = <T>(key: string): T[] => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const writeList = <T>(key: string, items: T[]) => localStorage.setItem(key, JSON.stringify(items));
+
+const readTokens = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(TOKENS_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const writeTokens = (tokens: Record<string, string>) => localStorage.setItem(TOKENS_KEY, JSON.stringify(tokens));
+
+// Keeps the delete token and caches the entry without it
+const storeSubmitted = ({ deleteToken, ...entry }: SubmittedEntry): LeaderboardEntry => {
+  if (deleteToken) writeTokens({ ...readTokens(), [entry.id]: deleteToken });
+  return entry;
+};
+
+const request = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Leaderboard responded with ${response.status}`);
+  return response.json();
+};
+
+const postEntry = (submission: Submission): Promise<SubmittedEntry> =>
+  request(LEADERBOARD_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(submission),
+  });
+
+const flushPending = async () => {
+  const pending = readList<PendingSubmission>(PENDING_KEY);
+  if (pending.length === 0) return;
+
+  const remaining: PendingSubmission[] = [];
+  for (const { localId, ...submission } of pending) {
+    try {
+      const entry = storeSubmitted(await postEntry(submission));
+      // Swap the cached placeholder for the server's entry so it can be deleted later
+      writeList(LOCAL_KEY, readList<LeaderboardEntry>(LOCAL_KEY).map(e => (e.id === localId ? entry : e)));
+    } catch {
+      remaining.push({ ...submission, localId });
+    }
+  }
+  writeList(PENDING_KEY, remaining);
+};
+
+export const fetchLeaderboard = async (query: LeaderboardQuery): Promise<LeaderboardPage> => {
+  try {
+    await flushPending();
+    return await request(`${LEADERBOARD_URL}?${toSearchParams(query)}`);
+  } catch (error) {
+    console.warn("Leaderboard unreachable, using local cache:", error);
+    return { ...queryLeaderboard(readList<LeaderboardEntry>(LOCAL_KEY), query), offline: true };
+  }
+};
+
+/**
+ * Removes an entry from the server (which requires its admin token) and from this
+ * device's cache. Resolves false when only the local copy could be removed.
+ */
+export const removeLeaderboardEntry = async (id: string, adminToken: string): Promise<boolean> => {
+  writeList(LOCAL_KEY, readList<LeaderboardEntry>(LOCAL_KEY).filter(e => e.id !== id));
+  try {
+    await request(`${LEADERBOARD_URL}/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${adminToken}` },
+    });
+    return true;
+  } catch (error) {
+    console.warn("Leaderboard entry not removed on the server:", error);
+    return false;
+  }
+};
+
+// Every entry is also kept locally so this device's results stay visible offline
+export const submitLeaderboardEntry = async (submission: Submission): Promise<LeaderboardEntry> => {
+  let entry: LeaderboardEntry;
+  try {
+    entry = storeSubmitted(await postEntry(submission));
+  } catch (error) {
+    console.warn("Leaderboard unreachable, queueing submission:", error);
+    entry = { ...submission, id: crypto.randomUUID(), date: new Date().toISOString() };
+    writeList(PENDING_KEY, [...readList<PendingSubmission>(PENDING_KEY), { ...submission, localId: entry.id }]);
+  }
+  writeList(LOCAL_KEY, [...readList<LeaderboardEntry>(LOCAL_KEY), entry]);
+  return entry;
+};
+
+/**
+ * Deletes every entry `username` submitted from this device: on the server where a delete
+ * token was kept, and always from the local cache and the pending queue. `unconfirmed`
+ * counts entries that may remain on the server (no token, or the server was unreachable);
+ * a proctor can remove those.
+ */
+export const removeOwnLeaderboardEntries = async (username: string) => {
+  const tokens = readTokens();
+  const pending = readList<PendingSubmission>(PENDING_KEY);
+  // Queued submissions never reached the server, so dropping them is enough
+  const queued = new Set(pending.filter(p => p.username === username).map(p => p.localId));
+  let removed = queued.size;
+  let unconfirmed = 0;
+
+  for (const entry of readList<LeaderboardEntry>(LOCAL_KEY)) {
+    if (entry.username !== username || queued.has(entry.id)) continue;
+    const token = tokens[entry.id];
+    delete tokens[entry.id];
+    if (!token) {
+      unconfirmed++;
+      continue;
+    }
+    try {
+      await request(`${LEADERBOARD_URL}/${encodeURIComponent(entry.id)}`, {
+        method: "DELETE",
+        headers: { "X-Delete-Token": token },
+      });
+      removed++;
+    } catch (error) {
+      console.warn("Leaderboard entry not removed on the server:", error);
+      unconfirmed++;
+    }
+  }
+
+  writeList(PENDING_KEY, pending.filter(p => p.username !== username));
+  writeList(LOCAL_KEY, readList<LeaderboardEntry>(LOCAL_KEY).filter(e => e.username !== username));
+  writeTokens(tokens);
+  return { removed, unconfirmed };
+};
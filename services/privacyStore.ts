@@ -0,0 +1,76 @@
+import { RetentionPolicy } from "../types";
+import { deleteDossier, listDossiers } from "./archiveStore";
+import { deleteInvitationsFor } from "./invitationStore";
+import { removeOwnLeaderboardEntries } from "./leaderboardService";
+import { deleteProfile } from "./profileStore";
+import { clearSession, listSessions, loadSession } from "./sessionStore";
+
+const RETENTION_KEY = "psyche7_retention";
+const PSEUDONYM_SALT_KEY = "psyche7_pseudonym_salt";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bump whenever the consent notice changes materially, so every subject is asked again
+export const CONSENT_VERSION = 2;
+
+// Periods offered in the privacy settings; null keeps records until they are deleted
+export const RETENTION_OPTIONS: (number | null)[] = [null, 7, 30, 90, 365];
+
+export const DEFAULT_RETENTION: RetentionPolicy = { dossierDays: null, sessionDays: 30 };
+
+export const loadRetention = (): RetentionPolicy => {
+  try {
+    return { ...DEFAULT_RETENTION, ...JSON.parse(localStorage.getItem(RETENTION_KEY) || "{}") };
+  } catch {
+    return DEFAULT_RETENTION;
+  }
+};
+
+export const saveRetention = (policy: RetentionPolicy) => {
+  localStorage.setItem(RETENTION_KEY, JSON.stringify(policy));
+};
+
+// Deletes dossiers and unfinished sessions older than the retention policy allows
+export const applyRetention = (policy: RetentionPolicy = loadRetention(), now = Date.now()) => {
+  const expired = (iso: string, days: number | null) => days !== null && now - new Date(iso).getTime() > days * DAY_MS;
+
+  const dossiers = listDossiers().filter(d => expired(d.completedAt, policy.dossierDays));
+  dossiers.forEach(d => deleteDossier(d.id));
+  const sessions = listSessions().filter(s => expired(s.updatedAt, policy.sessionDays));
+  sessions.forEach(s => clearSession(s.username));
+
+  return { dossiers: dossiers.length, sessions: sessions.length };
+};
+
+// Random per terminal, so pseudonyms cannot be reversed by hashing a list of likely codenames
+const pseudonymSalt = () => {
+  let salt = localStorage.getItem(PSEUDONYM_SALT_KEY);
+  if (!salt) {
+    salt = crypto.randomUUID();
+    localStorage.setItem(PSEUDONYM_SALT_KEY, salt);
+  }
+  return salt;
+};
+
+// Stable stand-in for a codename in requests to the AI provider, e.g. SUBJECT-3F9A02C1
+export const pseudonymFor = async (username: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${pseudonymSalt()}:${username}`));
+  const hex = [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("");
+  return `SUBJECT-${hex.slice(0, 8).toUpperCase()}`;
+};
+
+/**
+ * Removes everything this terminal holds about `username` (dossiers, unfinished session,
+ * invitations, profile) and the leaderboard entries it submitted. See
+ * removeOwnLeaderboardEntries for entries that may remain on the server.
+ */
+export const eraseSubjectData = async (username: string) => {
+  const dossiers = listDossiers(username);
+  dossiers.forEach(d => deleteDossier(d.id));
+  const session = loadSession(username);
+  clearSession(username);
+  deleteInvitationsFor(username);
+  const leaderboard = await removeOwnLeaderboardEntries(username);
+  deleteProfile(username);
+
+  return { dossiers: dossiers.length, sessions: session ? 1 : 0, leaderboard };
+};
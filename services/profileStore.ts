@@ -0,0 +1,96 @@
+import { UserProfile, UserRole } from "../types";
+
+const PROFILES_KEY = "psyche7_profiles";
+const PBKDF2_ITERATIONS = 150_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProfileError";
+  }
+}
+
+const readProfiles = (): UserProfile[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILES_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const writeProfiles = (profiles: UserProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  [...new Uint8Array(bytes)].map(b => b.toString(16).padStart(2, "0")).join("");
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) || []).map(pair => parseInt(pair, 16)));
+
+export const hashPassphrase = async (passphrase: string, salt: string) => {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromHex(salt), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(bits);
+};
+
+export const listProfiles = (): UserProfile[] =>
+  readProfiles().sort((a, b) => a.username.localeCompare(b.username));
+
+export const findProfile = (username: string) => readProfiles().find(p => p.username === username) || null;
+
+export const hasProctor = () => readProfiles().some(p => p.role === "proctor");
+
+// The first proctor can self-register; after that only an existing proctor can promote others
+export const registerProfile = async (username: string, passphrase: string, role: UserRole): Promise<UserProfile> => {
+  if (findProfile(username)) throw new ProfileError("Codename already registered.");
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new ProfileError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+  if (role === "proctor" && hasProctor()) throw new ProfileError("A proctor already exists; ask them to promote you.");
+
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const profile: UserProfile = {
+    username,
+    role,
+    salt,
+    passphraseHash: await hashPassphrase(passphrase, salt),
+    createdAt: new Date().toISOString(),
+  };
+  writeProfiles([...readProfiles(), profile]);
+  return profile;
+};
+
+export const authenticate = async (username: string, passphrase: string): Promise<UserProfile> => {
+  const profile = findProfile(username);
+  if (!profile) throw new ProfileError("Unknown codename.");
+  if (await hashPassphrase(passphrase, profile.salt) !== profile.passphraseHash) {
+    throw new ProfileError("Passphrase rejected.");
+  }
+  return profile;
+};
+
+// Privacy choices the subject makes themselves
+export const updateProfile = (username: string, changes: Partial<Pick<UserProfile, "consent" | "pseudonymize">>): UserProfile => {
+  const profile = findProfile(username);
+  if (!profile) throw new ProfileError("Unknown codename.");
+  const updated = { ...profile, ...changes };
+  writeProfiles(readProfiles().map(p => (p.username === username ? updated : p)));
+  return updated;
+};
+
+export const deleteProfile = (username: string) => {
+  writeProfiles(readProfiles().filter(p => p.username !== username));
+};
+
+export const setProfileRole = (username: string, role: UserRole) => {
+  const profiles = readProfiles();
+  if (role === "subject" && profiles.filter(p => p.role === "proctor" && p.username !== username).length === 0) {
+    throw new ProfileError("At least one proctor must remain.");
+  }
+  writeProfiles(profiles.map(p => (p.username === username ? { ...p, role } : p)));
+};
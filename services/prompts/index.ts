@@ -0,0 +1,25 @@
+import { PromptTemplate } from "./types";
+import { PROMPTS_V1 } from "./v1";
+import { PROMPTS_V2 } from "./v2";
+import { PROMPTS_V3 } from "./v3";
+import { PROMPTS_V4 } from "./v4";
+
+export * from "./types";
+
+// Register new versions here; CURRENT_PROMPT_VERSION is what new runs use
+export const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
+  [PROMPTS_V1.version]: PROMPTS_V1,
+  [PROMPTS_V2.version]: PROMPTS_V2,
+  [PROMPTS_V3.version]: PROMPTS_V3,
+  [PROMPTS_V4.version]: PROMPTS_V4,
+};
+
+export const CURRENT_PROMPT_VERSION = PROMPTS_V4.version;
+
+export const PROMPT_VERSIONS = Object.keys(PROMPT_TEMPLATES);
+
+export const getPromptTemplate = (version: string = CURRENT_PROMPT_VERSION): PromptTemplate => {
+  const template = PROMPT_TEMPLATES[version];
+  if (!template) throw new Error(`Unknown prompt version "${version}".`);
+  return template;
+};
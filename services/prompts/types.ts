@@ -0,0 +1,61 @@
+import { AssessmentProtocol, DimensionDefinition, Locale, QuestionType } from "../../types";
+import { AITask } from "../providers";
+
+export interface PromptText {
+  systemInstruction: string;
+  contents: string;
+}
+
+export interface QuestionPromptContext {
+  count: number;
+  definitions: DimensionDefinition[];
+  protocol?: Pick<AssessmentProtocol, "persona">; // only the persona is read
+  plan?: string[]; // target dimension per question, in order
+  avoid: string[]; // texts of questions already asked
+  locale?: Locale;
+  formats?: QuestionType[]; // question types to mix; multiple choice only when absent
+}
+
+export interface AnalysisPromptContext {
+  definitions: DimensionDefinition[];
+  protocol?: Pick<AssessmentProtocol, "persona">; // only the persona is read
+  locale?: Locale;
+  scoreData: string; // JSON of the locally computed scores
+  integrityData: string; // JSON of the locally measured integrity facts
+  answerData: string; // JSON of the question/answer pairs
+  timingData?: string; // JSON of the protocol's time limits; absent for untimed runs
+}
+
+export interface CompatibilityPromptContext {
+  mode: "pair" | "team";
+  score: number;
+  divergenceThreshold: number;
+  subjectData: string;
+  comparisonData: string;
+}
+
+export interface InterrogationPromptContext {
+  definitions: DimensionDefinition[];
+  protocol?: Pick<AssessmentProtocol, "persona">; // only the persona is read
+  locale?: Locale;
+  reportData: string; // JSON of the dossier's scores, findings and integrity facts
+  answerData: string; // JSON of the question/answer pairs, numbered from 1
+  transcript: string; // earlier turns of the interrogation, oldest first; empty for the first question
+  question: string;
+}
+
+// Tasks every template covers; tasks added later are optional so published versions stay untouched
+export type CoreTask = Exclude<AITask, "interrogate">;
+
+/**
+ * One frozen revision of every system prompt plus its sampling temperature. A published
+ * version is never edited; changes go into a new version so old dossiers stay traceable.
+ */
+export interface PromptTemplate {
+  version: string;
+  temperature: Record<CoreTask, number> & Partial<Record<AITask, number>>;
+  generateQuestions: (context: QuestionPromptContext) => PromptText;
+  analyzePersonality: (context: AnalysisPromptContext) => PromptText;
+  analyzeCompatibility: (context: CompatibilityPromptContext) => PromptText;
+  interrogate?: (context: InterrogationPromptContext) => PromptText; // from v4
+}
@@ -0,0 +1,26 @@
+import { PromptTemplate } from "./types";
+import { PROMPTS_V1 } from "./v1";
+
+// Appended to the v1 evaluation protocols when the run was timed
+const TIMING_PROTOCOL = `
+    TIME PRESSURE:
+    This subject answered under the time limits supplied as 'Time limits' (questionSeconds per question, sessionMinutes overall).
+    - Answers with 'timedOut' were not chosen by the subject: "random" means the choice was picked at random, "unanswered" that no response was scored as neutral, "skip" that the question was dropped from scoring. Do not treat their 'choice' as the subject's preference.
+    - Frequent timeouts may indicate hesitation, indecision or freezing under pressure; answers given well inside the limit under pressure may indicate decisiveness or impulsivity. Weigh these against the integrity facts.
+    - Reflect significant pressure effects in 'behavioralTendencies' and, where concerning, 'riskIndicators'.
+  `;
+
+// v1 with time-pressure guidance for timed protocols; other tasks are unchanged
+export const PROMPTS_V2: PromptTemplate = {
+  ...PROMPTS_V1,
+  version: "v2",
+
+  analyzePersonality: context => {
+    const prompt = PROMPTS_V1.analyzePersonality(context);
+    if (!context.timingData) return prompt;
+    return {
+      systemInstruction: prompt.systemInstruction + TIMING_PROTOCOL,
+      contents: `Time limits: ${context.timingData}\n${prompt.contents}`,
+    };
+  },
+};
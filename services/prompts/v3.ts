@@ -0,0 +1,46 @@
+import { QuestionType } from "../../types";
+import { PromptTemplate } from "./types";
+import { PROMPTS_V2 } from "./v2";
+
+const FORMAT_RULES: Record<QuestionType, string> = {
+  "choice": "'choice': 4 options, as in rule 4.",
+  "likert": `'likert': 'text' is a statement rated on a 1-7 scale. 'options' holds exactly 2 anchors, the meaning of 1 then of 7 (e.g. "Strongly disagree", "Strongly agree"); 'optionWeights' gives the weights of each end.`,
+  "forced-choice": "'forced-choice': exactly 2 options, both plausible and similarly desirable, so the choice reveals a trade-off.",
+  "ranking": "'ranking': 3 to 5 statements the subject orders from most to least like them.",
+  "free-text": "'free-text': an open question answered in the subject's own words. 'options' and 'optionWeights' are empty arrays.",
+  "scenario": "'scenario': 'text' sets up a situation with 2 to 4 options. 'followUps' holds, for each option in order, the next development of the situation given that choice: its own 'text', 2 to 4 'options' and 'optionWeights'.",
+};
+
+// Appended to the v2 generation rules when a protocol allows other formats than multiple choice
+const formatProtocol = (formats: QuestionType[]) => `
+    QUESTION FORMATS:
+    Set 'type' on every question to one of: ${formats.join(", ")}. Mix them in roughly equal numbers. Rule 4 applies only to 'choice'; the other formats follow these rules instead:
+${formats.map(format => `    - ${FORMAT_RULES[format]}`).join("\n")}
+  `;
+
+// Appended to the v2 analysis rules for every run
+const RESPONSE_FORMATS = `
+    RESPONSE FORMATS:
+    Answers without 'format' are multiple choice. Otherwise:
+    - "likert" and "ranking" answers were scored locally; their 'choice' describes the rating or order given.
+    - "forced-choice" answers weigh two comparably desirable options; treat them as revealed priorities.
+    - "scenario" answers follow a chain of situations, each step's choice separated by '→'.
+    - "free-text" answers are NOT scored locally. Interpret them in the narrative fields and the dimension rationale, quoting the subject where useful, but do not let them contradict the fixed scores.
+  `;
+
+// v2 with mixed question formats for generation and their interpretation for analysis
+export const PROMPTS_V3: PromptTemplate = {
+  ...PROMPTS_V2,
+  version: "v3",
+
+  generateQuestions: context => {
+    const prompt = PROMPTS_V2.generateQuestions(context);
+    if (!context.formats || context.formats.every(format => format === "choice")) return prompt;
+    return { ...prompt, systemInstruction: prompt.systemInstruction + formatProtocol(context.formats) };
+  },
+
+  analyzePersonality: context => {
+    const prompt = PROMPTS_V2.analyzePersonality(context);
+    return { ...prompt, systemInstruction: prompt.systemInstruction + RESPONSE_FORMATS };
+  },
+};
@@ -0,0 +1,97 @@
+import { AssessmentProtocol } from "../types";
+import { QUESTION_TYPES } from "./questionTypes";
+import { TIMEOUT_ACTIONS } from "./timing";
+
+const PROTOCOLS_KEY = "psyche7_protocols";
+
+export const PROTOCOL_LIMITS = {
+  maxDimensions: 12,
+  minQuestions: 5,
+  maxQuestions: 100,
+  maxNameLength: 40,
+  minQuestionSeconds: 5,
+  maxQuestionSeconds: 300,
+  maxSessionMinutes: 180,
+};
+
+const readProtocols = (): AssessmentProtocol[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PROTOCOLS_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const writeProtocols = (protocols: AssessmentProtocol[]) => {
+  localStorage.setItem(PROTOCOLS_KEY, JSON.stringify(protocols));
+};
+
+// Alphabetical, as they appear on the menu
+export const listProtocols = (): AssessmentProtocol[] =>
+  readProtocols().sort((a, b) => a.name.localeCompare(b.name));
+
+export const saveProtocol = (protocol: AssessmentProtocol) => {
+  const stored = { ...protocol, updatedAt: new Date().toISOString() };
+  writeProtocols([...readProtocols().filter(p => p.id !== protocol.id), stored]);
+  return stored;
+};
+
+export const deleteProtocol = (id: string) => {
+  writeProtocols(readProtocols().filter(p => p.id !== id));
+};
+
+// Problems that would stop the protocol from generating or scoring; empty when it can be saved
+export const validateProtocol = (protocol: AssessmentProtocol): string[] => {
+  const issues: string[] = [];
+  const { maxDimensions, minQuestions, maxQuestions, maxNameLength, minQuestionSeconds, maxQuestionSeconds, maxSessionMinutes } = PROTOCOL_LIMITS;
+
+  if (!protocol.name.trim()) issues.push("Protocol needs a name.");
+  if (protocol.name.length > maxNameLength) issues.push(`Name must be at most ${maxNameLength} characters.`);
+
+  if (protocol.dimensions.length === 0) issues.push("Define at least one dimension.");
+  if (protocol.dimensions.length > maxDimensions) issues.push(`At most ${maxDimensions} dimensions are supported.`);
+
+  const seen = new Set<string>();
+  protocol.dimensions.forEach((d, i) => {
+    const key = d.name.trim().toLowerCase();
+    if (!key) issues.push(`Dimension ${i + 1} needs a name.`);
+    else if (seen.has(key)) issues.push(`Dimension "${d.name}" is defined twice.`);
+    seen.add(key);
+    if (!Number.isFinite(d.weight) || d.weight < -1 || d.weight > 1) {
+      issues.push(`Weight of "${d.name || `dimension ${i + 1}`}" must be between -1 and 1.`);
+    }
+  });
+
+  if (!Number.isInteger(protocol.questionCount) || protocol.questionCount < minQuestions || protocol.questionCount > maxQuestions) {
+    issues.push(`Question count must be a whole number from ${minQuestions} to ${maxQuestions}.`);
+  }
+  if (protocol.fixedQuestions.length > protocol.questionCount) {
+    issues.push("More fixed questions than the question count allows.");
+  }
+
+  protocol.fixedQuestions.forEach((q, i) => {
+    const label = `Fixed question ${i + 1}`;
+    if (!q.text.trim()) issues.push(`${label} has no text.`);
+    if (!protocol.dimensions.some(d => d.name === q.dimension)) issues.push(`${label} targets an undefined dimension.`);
+    if (q.options.length !== 4 || q.options.some(option => !option.trim())) issues.push(`${label} needs four non-empty options.`);
+  });
+
+  if (protocol.questionTypes) {
+    if (protocol.questionTypes.length === 0) issues.push("Allow at least one question format.");
+    if (protocol.questionTypes.some(type => !QUESTION_TYPES.includes(type))) issues.push("Unknown question format.");
+  }
+
+  const { timing } = protocol;
+  if (timing) {
+    const { questionSeconds, sessionMinutes, onTimeout } = timing;
+    if (questionSeconds !== undefined && (!Number.isInteger(questionSeconds) || questionSeconds < minQuestionSeconds || questionSeconds > maxQuestionSeconds)) {
+      issues.push(`Time per question must be a whole number of seconds from ${minQuestionSeconds} to ${maxQuestionSeconds}.`);
+    }
+    if (sessionMinutes !== undefined && (!Number.isInteger(sessionMinutes) || sessionMinutes < 1 || sessionMinutes > maxSessionMinutes)) {
+      issues.push(`Session time must be a whole number of minutes from 1 to ${maxSessionMinutes}.`);
+    }
+    if (!TIMEOUT_ACTIONS.includes(onTimeout)) issues.push("Choose what happens when time runs out.");
+  }
+
+  return issues;
+};
@@ -0,0 +1,52 @@
+export const AI_ERROR_CATEGORIES = ["auth", "quota", "server", "network", "timeout", "cancelled", "malformed"] as const;
+
+export type AIErrorCategory = typeof AI_ERROR_CATEGORIES[number];
+
+// Categories that may succeed if the same request is sent again after a pause
+const RETRYABLE: AIErrorCategory[] = ["quota", "server", "network", "timeout"];
+
+export class AIServiceError extends Error {
+  category: AIErrorCategory;
+  status?: number;
+  retryAfterMs?: number; // server-requested delay before retrying, when given
+
+  constructor(category: AIErrorCategory, message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = "AIServiceError";
+    this.category = category;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable() {
+    return RETRYABLE.includes(this.category);
+  }
+}
+
+export const categoryForStatus = (status: number): AIErrorCategory => {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return "quota";
+  if (status === 408) return "timeout";
+  if (status >= 500) return "server";
+  return "malformed";
+};
+
+// Maps whatever a provider threw (SDK errors, fetch failures, aborts) onto a category
+export const toAIServiceError = (error: unknown): AIServiceError => {
+  if (error instanceof AIServiceError) return error;
+
+  const err = error as { name?: string; message?: string; status?: number } | undefined;
+  const message = err?.message || String(error);
+
+  if (err?.name === "AbortError") return new AIServiceError("cancelled", "Request cancelled.", { cause: error });
+  if (typeof err?.status === "number") {
+    return new AIServiceError(categoryForStatus(err.status), message, { status: err.status, cause: error });
+  }
+  if (/api[_ ]?key|unauthori[sz]ed|permission denied/i.test(message)) return new AIServiceError("auth", message, { cause: error });
+  if (/quota|rate limit|resource_exhausted/i.test(message)) return new AIServiceError("quota", message, { cause: error });
+  // fetch reports unreachable hosts, CORS and dropped connections as a bare TypeError
+  if (error instanceof TypeError || /network|fetch|ECONNREFUSED|ENOTFOUND/i.test(message)) {
+    return new AIServiceError("network", message, { cause: error });
+  }
+  return new AIServiceError("server", message, { cause: error });
+};
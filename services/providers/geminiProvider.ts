@@ -0,0 +1,51 @@
+import { GoogleGenAI } from "@google/genai";
+import { AIServiceError } from "./errors";
+import { AIConfig, AIProvider, AIRequest } from "./types";
+
+export const createGeminiProvider = (config: AIConfig): AIProvider => {
+  // Helper to ensure API Key exists
+  const getClient = () => {
+    if (!config.apiKey) {
+      throw new AIServiceError("auth", "API_KEY not found in environment.");
+    }
+    return new GoogleGenAI({ apiKey: config.apiKey });
+  };
+
+  const toParams = (request: AIRequest) => ({
+    model: config.model,
+    contents: request.contents,
+    config: {
+      systemInstruction: request.systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema: request.schema,
+      abortSignal: request.signal,
+      temperature: request.temperature,
+      seed: request.seed,
+    },
+  });
+
+  return {
+    name: "gemini",
+    model: config.model,
+    generateJSON: async (request) => {
+      const ai = getClient();
+      const response = await ai.models.generateContent(toParams(request));
+
+      const rawText = response.text;
+      if (!rawText) throw new Error("No data received from construct.");
+      return rawText;
+    },
+    streamJSON: async (request, onText) => {
+      const ai = getClient();
+      const stream = await ai.models.generateContentStream(toParams(request));
+
+      let rawText = "";
+      for await (const chunk of stream) {
+        rawText += chunk.text || "";
+        onText(rawText);
+      }
+      if (!rawText) throw new Error("No data received from construct.");
+      return rawText;
+    },
+  };
+};
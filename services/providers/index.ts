@@ -0,0 +1,73 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAIProvider } from "./openaiProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { AIConfig, AIProvider, ProviderName } from "./types";
+
+export * from "./types";
+export * from "./errors";
+export * from "./request";
+
+type UpstreamName = Exclude<ProviderName, "proxy">;
+
+const DEFAULT_MODELS: Record<UpstreamName, string> = {
+  gemini: "gemini-flash-latest",
+  openai: "local-model",
+  mock: "mock-deterministic",
+};
+
+const upstreamName = (value: string | undefined): UpstreamName => {
+  const requested = (value || "gemini").toLowerCase();
+  return requested in DEFAULT_MODELS ? (requested as UpstreamName) : "gemini";
+};
+
+/**
+ * Provider and model come from the environment (see vite.config.ts), never from source.
+ * The browser build only ever sees "proxy" or "mock", so keys are read on the server alone.
+ */
+export const getAIConfig = (): AIConfig => {
+  if ((process.env.AI_PROVIDER || "").toLowerCase() === "proxy") {
+    // The server picks the backend; it is named here only to default the model the same way
+    return {
+      provider: "proxy",
+      model: process.env.AI_MODEL || DEFAULT_MODELS[upstreamName(process.env.AI_UPSTREAM)],
+      baseUrl: process.env.AI_PROXY_URL || "/api/ai",
+    };
+  }
+
+  const provider = upstreamName(process.env.AI_PROVIDER);
+  const model = process.env.AI_MODEL || DEFAULT_MODELS[provider];
+  switch (provider) {
+    case "openai":
+      return { provider, model, baseUrl: process.env.AI_BASE_URL || undefined, apiKey: process.env.AI_API_KEY };
+    case "mock":
+      return { provider, model };
+    default:
+      return { provider, model, apiKey: process.env.API_KEY };
+  }
+};
+
+// Headless tools (e.g. the eval harness) can wrap or replace whichever backend is configured
+let providerHook: ((provider: AIProvider) => AIProvider) | null = null;
+
+export const setAIProviderHook = (hook: ((provider: AIProvider) => AIProvider) | null) => {
+  providerHook = hook;
+};
+
+const createProvider = (config: AIConfig): AIProvider => {
+  switch (config.provider) {
+    case "openai":
+      return createOpenAIProvider(config);
+    case "mock":
+      return createMockProvider(config);
+    case "proxy":
+      return createProxyProvider(config);
+    default:
+      return createGeminiProvider(config);
+  }
+};
+
+export const getAIProvider = (config: AIConfig = getAIConfig()): AIProvider => {
+  const provider = createProvider(config);
+  return providerHook ? providerHook(provider) : provider;
+};
@@ -0,0 +1,188 @@
+import { Answer, DimensionComparison, IntegrityReport, Question, QuestionType } from "../../types";
+import { AnalysisTaskInput, compareSubjects, CompatibilityTaskInput, InterrogationTaskInput, QuestionTaskInput } from "../aiTasks";
+import { DEFAULT_DIMENSIONS, DIMENSION_NAMES } from "../dimensions";
+import { analyzeIntegrity } from "../integrity";
+import { scoreAnswers, ScoreSummary } from "../scoringEngine";
+import { AIServiceError } from "./errors";
+import { AIConfig, AIProvider, AIRequest } from "./types";
+
+const STEMS = [
+  "{setting}, an operation relevant to your {dimension} profile deviates from its briefing without warning. Your response:",
+  "{setting}, a superior questions a decision that tested your {dimension}. You:",
+  "{setting}, you observe a colleague struggling in a situation governed by {dimension}. You:",
+  "{setting}, a scenario probing your {dimension} escalates under sustained surveillance. You:",
+];
+
+const SETTINGS = [
+  "During a night extraction",
+  "In a hostile negotiation",
+  "On day nine of an isolation protocol",
+  "While embedded with a foreign delegation",
+  "In the final hour before a deadline",
+  "During a routine compliance audit",
+];
+
+// Cycled once every stem/setting pairing is used, so long generation runs stay distinct
+const COMPLICATIONS = [
+  " as the sole officer in charge",
+  " with no backup available",
+  " while your every word is being recorded",
+  " after your orders have been revoked",
+  " under a deadline you cannot negotiate",
+];
+
+const OPTIONS = [
+  "Act immediately and accept the consequences.",
+  "Consult the team before committing to a course.",
+  "Observe silently and gather additional data.",
+  "Withdraw and report the anomaly upward.",
+];
+
+// Options run from strongly expressing the question's dimension to strongly rejecting it
+const OPTION_WEIGHTS = [2, 1, -1, -2];
+
+const LIKERT_ANCHORS = ["Strongly disagree", "Strongly agree"];
+
+const FOLLOW_UP = "The situation escalates as a direct result of that decision. You:";
+
+// Shapes a stem into each question format, keeping weights aligned with OPTIONS
+const formatQuestion = (type: QuestionType, text: string, dimension: string): Omit<Question, "id" | "dimension"> => {
+  const weigh = (weights: number[]) => weights.map(weight => ({ [dimension]: weight }));
+  switch (type) {
+    case "choice":
+      return { text, options: [...OPTIONS], optionWeights: weigh(OPTION_WEIGHTS) };
+    case "likert":
+      return { type, text: `${text.replace(/ (You|Your response):$/, "")} I would act decisively.`, options: [...LIKERT_ANCHORS], optionWeights: weigh([-2, 2]) };
+    case "forced-choice":
+      return { type, text, options: [OPTIONS[0], OPTIONS[2]], optionWeights: weigh([2, -1]) };
+    case "ranking":
+      return { type, text: `${text} Rank these responses.`, options: [...OPTIONS], optionWeights: weigh(OPTION_WEIGHTS) };
+    case "free-text":
+      return { type, text: `${text} Describe what you would do.`, options: [], optionWeights: [] };
+    case "scenario":
+      return {
+        type,
+        text,
+        options: OPTIONS.slice(0, 3),
+        optionWeights: weigh(OPTION_WEIGHTS.slice(0, 3)),
+        followUps: OPTIONS.slice(0, 3).map(() => ({ text: FOLLOW_UP, options: [OPTIONS[0], OPTIONS[3]], optionWeights: weigh([2, -2]) })),
+      };
+  }
+};
+
+// Small string hash so identical prompts always produce identical output
+const hash = (value: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+};
+
+// `offset` continues numbering from earlier batches so texts never repeat across them; formats rotate by position
+const mockQuestions = (count: number, offset = 0, dimensions?: string[], formats: QuestionType[] = ["choice"]): Question[] =>
+  Array.from({ length: count }, (_, i) => {
+    const k = offset + i;
+    const dimension = dimensions?.[i] || DIMENSION_NAMES[k % DIMENSION_NAMES.length];
+    const stem = STEMS[k % STEMS.length];
+    const setting = SETTINGS[Math.floor(k / STEMS.length) % SETTINGS.length]
+      + COMPLICATIONS[Math.floor(k / (STEMS.length * SETTINGS.length)) % COMPLICATIONS.length];
+    const text = stem.replace("{setting}", setting).replace("{dimension}", dimension.toLowerCase());
+    return { id: i + 1, dimension, ...formatQuestion(formats[k % formats.length], text, dimension) };
+  });
+
+const mockAnalysis = (answers: Answer[], scores: ScoreSummary, integrity?: IntegrityReport) => {
+  const seed = hash(answers.map(a => `${a.questionId}:${a.selectedOption}`).join("|"));
+  const ranked = Object.entries(scores.dimensionScores).sort((a, b) => b[1] - a[1]).map(([name]) => name);
+  const high = ranked.slice(0, 3);
+  const low = ranked.slice(-2);
+
+  return {
+    dominantTraits: high.map(name => `Elevated ${name}`),
+    strengths: [`Consistent responses within ${high[0]} scenarios.`],
+    weaknesses: low.map(name => `Diminished ${name} under examination.`),
+    behavioralTendencies: [`Subject favours deliberate choices across ${answers.length} recorded responses.`],
+    dimensionRationale: Object.fromEntries(Object.entries(scores.dimensionScores).map(([name, score]) => {
+      const count = answers.filter(a => name in (a.weights || {})).length;
+      return [name, `Scored ${score} from ${count} weighted response(s); ${score >= 60 ? "consistently expressed" : score <= 40 ? "consistently rejected" : "mixed signals"}.`];
+    })),
+    riskIndicators: [
+      ...(scores.score < 40 || seed % 3 === 0 ? [`Irregular pattern in ${low[0]} responses.`] : []),
+      ...(integrity && integrity.integrityScore < 70 ? [`Response integrity compromised (${integrity.integrityScore}/100).`] : []),
+    ],
+  };
+};
+
+const mockCompatibility = (mode: "pair" | "team", subjects: string[], comparison: DimensionComparison[], score: number) => {
+  const aligned = comparison.filter(c => !c.divergent).sort((a, b) => a.spread - b.spread).slice(0, 2).map(c => c.dimension);
+  const divergent = comparison.filter(c => c.divergent).map(c => c.dimension);
+
+  return {
+    summary: `${mode === "pair" ? "Pairing" : "Team"} of ${subjects.join(", ")} rated ${score}/100 on dimensional alignment.`,
+    synergies: aligned.map(name => `Shared baseline in ${name}.`),
+    frictionPoints: divergent.length > 0 ? divergent.map(name => `Divergent ${name} profiles.`) : [],
+    recommendations: [divergent.length > 0 ? `Assign a mediator for decisions governed by ${divergent[0]}.` : "Deploy without additional oversight."],
+  };
+};
+
+// Cites the answers on whichever dimension the question names, or the first answers otherwise
+const mockInterrogation = (question: string, answers: Answer[], findings: { dimensionScores: Record<string, number> }) => {
+  const asked = question.toLowerCase();
+  const dimension = Object.keys(findings.dimensionScores).find(name => asked.includes(name.toLowerCase()));
+  const cited = answers
+    .map((a, i) => ({ a, number: i + 1 }))
+    .filter(({ a }) => !dimension || a.dimension === dimension)
+    .slice(0, 2);
+  const evidence = cited.map(({ a, number }) => `"${a.selectedOption}" [Q${number}]`).join(" and ");
+
+  return {
+    reply: dimension
+      ? `${dimension} was scored ${findings.dimensionScores[dimension]} from the recorded responses, notably ${evidence || "none on record"}.`
+      : `The finding rests on the full response record. Representative responses: ${evidence || "none on record"}. Name a dimension for a narrower account.`,
+  };
+};
+
+const STREAM_CHUNK = 160;
+
+// Deterministic offline backend for development, demos and tests. Never touches the network.
+export const createMockProvider = (config: AIConfig): AIProvider => {
+  const generateJSON = async (request: AIRequest) => {
+    switch (request.task) {
+      case "generateQuestions": {
+        const { count, offset, dimensions, formats } = request.input as QuestionTaskInput;
+        return JSON.stringify(mockQuestions(count, offset, dimensions, formats));
+      }
+      case "analyzePersonality": {
+        const { answers, definitions = DEFAULT_DIMENSIONS } = request.input as AnalysisTaskInput;
+        const integrity = analyzeIntegrity(answers);
+        return JSON.stringify(mockAnalysis(answers, scoreAnswers(answers, definitions, integrity), integrity));
+      }
+      case "analyzeCompatibility": {
+        const { subjects } = request.input as CompatibilityTaskInput;
+        const { mode, comparison, score } = compareSubjects(subjects);
+        return JSON.stringify(mockCompatibility(mode, subjects.map(s => s.subject), comparison, score));
+      }
+      case "interrogate": {
+        const { question, answers, findings } = request.input as InterrogationTaskInput;
+        return JSON.stringify(mockInterrogation(question, answers, findings));
+      }
+    }
+  };
+
+  return {
+    name: "mock",
+    model: config.model,
+    generateJSON,
+    // Replays the full response in fixed-size chunks to exercise streaming consumers
+    streamJSON: async (request, onText) => {
+      const rawText = await generateJSON(request);
+      for (let end = STREAM_CHUNK; end < rawText.length + STREAM_CHUNK; end += STREAM_CHUNK) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (request.signal?.aborted) throw new AIServiceError("cancelled", "Request cancelled.");
+        onText(rawText.slice(0, end));
+      }
+      return rawText;
+    },
+  };
+};
@@ -0,0 +1,100 @@
+import { Schema } from "@google/genai";
+import { AIServiceError, categoryForStatus } from "./errors";
+import { AIConfig, AIProvider, AIRequest } from "./types";
+
+// Converts a Gemini response schema into plain JSON Schema (Type.STRING -> "string", etc.)
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = schema.type.toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) out.required = schema.required;
+  return out;
+};
+
+// Talks to any server exposing the OpenAI chat completions API (llama.cpp, Ollama, vLLM, LM Studio...)
+export const createOpenAIProvider = (config: AIConfig): AIProvider => {
+  const baseUrl = (config.baseUrl || "http://localhost:11434/v1").replace(/\/$/, "");
+
+  const complete = async (request: AIRequest, stream: boolean) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: config.model,
+        stream,
+        temperature: request.temperature,
+        seed: request.seed,
+        messages: [
+          { role: "system", content: request.systemInstruction },
+          { role: "user", content: request.contents },
+        ],
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: request.task, schema: toJsonSchema(request.schema) },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const retryAfter = Number(response.headers.get("Retry-After"));
+      throw new AIServiceError(categoryForStatus(response.status), `Provider responded with ${response.status} ${response.statusText}`, {
+        status: response.status,
+        retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
+      });
+    }
+    return response;
+  };
+
+  return {
+    name: "openai",
+    model: config.model,
+    generateJSON: async (request) => {
+      const data = await (await complete(request, false)).json();
+      const rawText: string | undefined = data?.choices?.[0]?.message?.content;
+      if (!rawText) throw new Error("No data received from construct.");
+      return rawText;
+    },
+    // Server-sent events: each "data:" line carries a delta of the message content
+    streamJSON: async (request, onText) => {
+      const response = await complete(request, true);
+      if (!response.body) throw new Error("Provider returned no stream.");
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let rawText = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, "").trim();
+          if (!line.startsWith("data:") || !payload || payload === "[DONE]") continue;
+          const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (delta) {
+            rawText += delta;
+            onText(rawText);
+          }
+        }
+      }
+
+      if (!rawText) throw new Error("No data received from construct.");
+      return rawText;
+    },
+  };
+};
@@ -0,0 +1,95 @@
+import { AI_ERROR_CATEGORIES, AIErrorCategory, AIServiceError, categoryForStatus } from "./errors";
+import { AIConfig, AIProvider, AIRequest, ProxyRequestBody, ProxyStreamEvent } from "./types";
+
+const toCategory = (value: unknown, fallback: AIErrorCategory): AIErrorCategory =>
+  AI_ERROR_CATEGORIES.includes(value as AIErrorCategory) ? (value as AIErrorCategory) : fallback;
+
+// A line that is not a JSON event means the proxy broke the protocol, which retrying will not fix
+const parseEvent = (line: string): ProxyStreamEvent => {
+  let event: unknown;
+  try {
+    event = JSON.parse(line);
+  } catch (error) {
+    throw new AIServiceError("malformed", "Proxy stream contained an unreadable event.", { cause: error });
+  }
+  if (typeof event !== "object" || event === null) throw new AIServiceError("malformed", "Proxy stream contained an unreadable event.");
+  return event as ProxyStreamEvent;
+};
+
+// Sends requests to the PSYCHE-7 server (server/aiRoutes.ts), which holds the key and calls the real backend
+export const createProxyProvider = (config: AIConfig): AIProvider => {
+  const baseUrl = (config.baseUrl || "/api/ai").replace(/\/$/, "");
+
+  const post = async (path: "generate" | "stream", request: AIRequest) => {
+    const body: ProxyRequestBody = {
+      task: request.task,
+      input: request.input,
+      promptVersion: request.promptVersion,
+      seed: request.seed,
+      model: config.model,
+    };
+
+    const response = await fetch(`${baseUrl}/${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      signal: request.signal,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const failure = await response.json().catch(() => ({}));
+      const retryAfter = Number(response.headers.get("Retry-After"));
+      throw new AIServiceError(
+        toCategory(failure?.category, categoryForStatus(response.status)),
+        failure?.error || `Proxy responded with ${response.status} ${response.statusText}`,
+        { status: response.status, retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined }
+      );
+    }
+    return response;
+  };
+
+  return {
+    name: "proxy",
+    model: config.model,
+    generateJSON: async (request) => {
+      const data = await (await post("generate", request)).json();
+      if (typeof data?.text !== "string" || !data.text) throw new Error("No data received from construct.");
+      return data.text;
+    },
+    // Newline-delimited JSON: text deltas, then either "done" or an error raised after streaming began
+    streamJSON: async (request, onText) => {
+      const response = await post("stream", request);
+      if (!response.body) throw new Error("Proxy returned no stream.");
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let rawText = "";
+      let done = false;
+
+      while (!done) {
+        const chunk = await reader.read();
+        if (chunk.done) break;
+        buffer += decoder.decode(chunk.value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = parseEvent(line);
+          if ("error" in event) throw new AIServiceError(toCategory(event.category, "server"), event.error);
+          if ("done" in event) {
+            done = true;
+            break;
+          }
+          rawText += event.delta;
+          onText(rawText);
+        }
+      }
+
+      if (!done) throw new AIServiceError("network", "Proxy stream ended unexpectedly.");
+      if (!rawText) throw new Error("No data received from construct.");
+      return rawText;
+    },
+  };
+};
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AIServiceError } from "./errors";
+import { runAIRequest } from "./request";
+
+const policy = { timeoutMs: 1000, maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 150 };
+
+// Fails with each error in turn, then resolves
+const failing = (...errors: unknown[]) => vi.fn(async () => {
+  const error = errors.shift();
+  if (error) throw error;
+  return "ok";
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("runAIRequest", () => {
+  it("retries retryable failures until one succeeds", async () => {
+    const call = failing(new AIServiceError("server", "Bad gateway."), new TypeError("fetch failed"));
+    const result = runAIRequest(call, undefined, policy);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe("ok");
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry auth or malformed failures", async () => {
+    for (const category of ["auth", "malformed"] as const) {
+      const call = failing(new AIServiceError(category, "No."));
+      await expect(runAIRequest(call, undefined, policy)).rejects.toMatchObject({ category });
+      expect(call).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it("gives up after the last attempt", async () => {
+    const call = failing(...Array(5).fill(new AIServiceError("quota", "Slow down.")));
+    const result = runAIRequest(call, undefined, policy);
+    const settled = expect(result).rejects.toMatchObject({ category: "quota" });
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it("doubles the backoff up to the maximum", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    const call = failing(new AIServiceError("server", "1"), new AIServiceError("server", "2"));
+    const result = runAIRequest(call, undefined, policy);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(call).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(149);
+    expect(call).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("ok");
+  });
+
+  it("waits as long as the server asks", async () => {
+    const call = failing(new AIServiceError("quota", "Slow down.", { retryAfterMs: 5000 }));
+    const result = runAIRequest(call, undefined, policy);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(call).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("ok");
+  });
+
+  it("reports an attempt with no response as a timeout", async () => {
+    const call = vi.fn((signal: AbortSignal) => new Promise<string>((_, reject) => {
+      signal.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+    }));
+    const result = runAIRequest(call, undefined, { ...policy, maxAttempts: 1 });
+    const settled = expect(result).rejects.toMatchObject({ category: "timeout" });
+    await vi.advanceTimersByTimeAsync(1000);
+    await settled;
+  });
+
+  it("cancels the attempt in flight", async () => {
+    const controller = new AbortController();
+    const call = vi.fn((signal: AbortSignal) => new Promise<string>((_, reject) => {
+      signal.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+    }));
+    const result = runAIRequest(call, controller.signal, policy);
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ category: "cancelled" });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels a pending backoff", async () => {
+    const controller = new AbortController();
+    const call = failing(new AIServiceError("server", "Bad gateway."));
+    const result = runAIRequest(call, controller.signal, policy);
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ category: "cancelled" });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
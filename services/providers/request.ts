@@ -0,0 +1,74 @@
+import { AIServiceError, toAIServiceError } from "./errors";
+
+export interface RequestPolicy {
+  timeoutMs: number; // per attempt
+  maxAttempts: number;
+  baseDelayMs: number; // doubled after every failed attempt
+  maxDelayMs: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 90_000,
+  maxAttempts: 4,
+  baseDelayMs: 1_000,
+  maxDelayMs: 15_000,
+};
+
+// Resolves after `ms`, or rejects as cancelled as soon as `signal` aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new AIServiceError("cancelled", "Request cancelled."));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AIServiceError("cancelled", "Request cancelled."));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Runs `call` with a per-attempt timeout, retrying rate-limit, server, network and timeout
+ * failures with jittered exponential backoff. Aborting `signal` cancels the attempt in
+ * flight and any pending backoff. Every failure surfaces as an AIServiceError.
+ */
+export const runAIRequest = async <T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+  policy: RequestPolicy = DEFAULT_REQUEST_POLICY
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw new AIServiceError("cancelled", "Request cancelled.");
+
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    signal?.addEventListener("abort", cancel, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, policy.timeoutMs);
+
+    let failure: AIServiceError;
+    try {
+      return await call(controller.signal);
+    } catch (error) {
+      if (signal?.aborted) throw new AIServiceError("cancelled", "Request cancelled.", { cause: error });
+      failure = timedOut
+        ? new AIServiceError("timeout", `No response within ${policy.timeoutMs / 1000}s.`, { cause: error })
+        : toAIServiceError(error);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", cancel);
+    }
+
+    if (!failure.retryable || attempt >= policy.maxAttempts) throw failure;
+
+    const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    const delay = failure.retryAfterMs ?? backoff * (0.5 + Math.random() / 2);
+    console.warn(`AI request failed (${failure.category}, attempt ${attempt}/${policy.maxAttempts}); retrying in ${Math.round(delay)}ms.`, failure.message);
+    await sleep(delay, signal);
+  }
+};
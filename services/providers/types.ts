@@ -0,0 +1,47 @@
+import { Schema } from "@google/genai";
+
+// "proxy" forwards to the PSYCHE-7 server, which holds the key and talks to one of the others
+export type ProviderName = "gemini" | "openai" | "mock" | "proxy";
+
+export type AITask = "generateQuestions" | "analyzePersonality" | "analyzeCompatibility" | "interrogate";
+
+export interface AIRequest {
+  task: AITask;
+  systemInstruction: string;
+  contents: string;
+  schema: Schema;
+  // The structured input the prompt was built from (see services/aiTasks.ts); the mock answers from it
+  input: unknown;
+  promptVersion: string;
+  // Aborts the request in flight (cancel button or timeout)
+  signal?: AbortSignal;
+  // Sampling settings from the prompt template; backends without seed support ignore it
+  temperature?: number;
+  seed?: number;
+}
+
+export interface AIProvider {
+  name: ProviderName;
+  model: string;
+  // Resolves to the raw JSON text returned by the backend
+  generateJSON: (request: AIRequest) => Promise<string>;
+  // Same as generateJSON, reporting the accumulated text as it arrives
+  streamJSON: (request: AIRequest, onText: (text: string) => void) => Promise<string>;
+}
+
+export interface AIConfig {
+  provider: ProviderName;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+// What the proxy provider posts to the server's /api/ai endpoints. Only the structured input
+// is sent; the server rebuilds the prompt, schema and temperature from it.
+export type ProxyRequestBody = Pick<AIRequest, "task" | "input" | "promptVersion" | "seed"> & { model: string };
+
+// One newline-delimited JSON line of a streamed proxy response
+export type ProxyStreamEvent =
+  | { delta: string }
+  | { done: true }
+  | { error: string; category: string };
@@ -0,0 +1,101 @@
+import { DimensionWeights, Locale, Question } from "../types";
+import { DIMENSION_NAMES } from "./dimensions";
+import analyticalDecision from "../data/questionBank/v1/analytical-decision.json";
+import autonomy from "../data/questionBank/v1/autonomy.json";
+import controlDominance from "../data/questionBank/v1/control-dominance.json";
+import emotionalStability from "../data/questionBank/v1/emotional-stability.json";
+import empathy from "../data/questionBank/v1/empathy.json";
+import moralFlexibility from "../data/questionBank/v1/moral-flexibility.json";
+import riskTolerance from "../data/questionBank/v1/risk-tolerance.json";
+import socialDependence from "../data/questionBank/v1/social-dependence.json";
+import stressResilience from "../data/questionBank/v1/stress-resilience.json";
+
+export const QUESTION_BANK_VERSION = 1;
+// The bank is written in English only; other languages generate every question instead
+export const BANK_LOCALE: Locale = "en";
+
+export const hasBankFor = (locale: Locale = BANK_LOCALE) => locale === BANK_LOCALE;
+
+interface BankFile {
+  version: number;
+  dimension: string;
+  questions: { bankId: string; text: string; options: string[]; optionWeights: DimensionWeights[] }[];
+}
+
+const BANK_FILES = [
+  emotionalStability, empathy, autonomy, stressResilience, riskTolerance,
+  socialDependence, controlDominance, analyticalDecision, moralFlexibility,
+] as BankFile[];
+
+// Bank questions keyed by dimension; ids are assigned when a set is assembled
+const BANK: Record<string, Question[]> = Object.fromEntries(
+  BANK_FILES.map(file => [
+    file.dimension,
+    file.questions.map(q => ({ id: 0, dimension: file.dimension, ...q })),
+  ])
+);
+
+export const getBankQuestions = (dimension: string): Question[] => BANK[dimension] || [];
+
+// Seeded PRNG (mulberry32) so a seed always reproduces the same selection
+export const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+export const renumberQuestions = (questions: Question[]) => questions.map((q, i) => ({ ...q, id: i + 1 }));
+
+/**
+ * Draws `count` bank questions so that, together with `existing`, every dimension is
+ * covered as evenly as possible (per-dimension counts differ by at most one). Only
+ * dimensions the bank covers can be drawn, so custom protocols may receive fewer.
+ */
+export const selectBankQuestions = (
+  count: number,
+  { seed = Date.now(), existing = [], dimensions = DIMENSION_NAMES }: { seed?: number; existing?: Question[]; dimensions?: string[] } = {}
+): Question[] => {
+  const random = createRandom(seed);
+  const names = dimensions.filter(d => getBankQuestions(d).length > 0);
+  if (names.length === 0) return [];
+
+  const total = count + existing.length;
+  const have: Record<string, number> = Object.fromEntries(names.map(d => [d, 0]));
+  existing.forEach(q => { if (q.dimension in have) have[q.dimension]++; });
+
+  // Even target per dimension; the remainder goes to randomly chosen dimensions
+  const target: Record<string, number> = {};
+  const base = Math.floor(total / names.length);
+  const extra = new Set(shuffle(names, random).slice(0, total % names.length));
+  names.forEach(d => { target[d] = base + (extra.has(d) ? 1 : 0); });
+
+  const pools = Object.fromEntries(
+    names.map(d => [d, shuffle(getBankQuestions(d), random)])
+  ) as Record<string, Question[]>;
+
+  const selected: Question[] = [];
+  names.forEach(d => {
+    const needed = Math.max(0, target[d] - have[d]);
+    selected.push(...pools[d].splice(0, needed));
+  });
+
+  // Top up from the least-covered dimensions when quotas could not be met
+  while (selected.length < count) {
+    const counts = (d: string) => have[d] + selected.filter(q => q.dimension === d).length;
+    const next = names.filter(d => pools[d].length > 0).sort((a, b) => counts(a) - counts(b))[0];
+    if (!next) break;
+    selected.push(pools[next].shift()!);
+  }
+
+  return shuffle(selected.slice(0, count), random);
+};
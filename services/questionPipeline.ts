@@ -0,0 +1,113 @@
+import { AssessmentProtocol, Locale, Question, QuestionSource } from "../types";
+import { DIMENSION_NAMES } from "./dimensions";
+import { generateAssessmentQuestions, newSeed } from "./geminiService";
+import { hasBankFor, renumberQuestions, selectBankQuestions } from "./questionBank";
+
+export const QUESTION_BATCH_SIZE = 10;
+// Texts quoted back to the model per batch so it avoids repeats without bloating the prompt
+export const MAX_AVOID_TEXTS = 40;
+const NEAR_DUPLICATE_SIMILARITY = 0.8;
+
+export interface QuestionStreamHandlers {
+  onQuestions: (questions: Question[]) => void; // every question received so far
+  onProgress: (received: number, target: number) => void;
+}
+
+// Letters in any script count, so accented and non-Latin questions are compared too
+const tokenize = (text: string) => new Set(text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, " ").split(/\s+/).filter(Boolean));
+
+// Jaccard similarity of word sets, so reworded copies are caught as well as exact ones
+export const isNearDuplicate = (a: string, b: string) => {
+  const left = tokenize(a);
+  const right = tokenize(b);
+  let shared = 0;
+  left.forEach(token => { if (right.has(token)) shared++; });
+  const union = left.size + right.size - shared;
+  return union > 0 && shared / union >= NEAR_DUPLICATE_SIMILARITY;
+};
+
+const dedupe = (incoming: Question[], existing: Question[]) => {
+  const accepted: Question[] = [];
+  incoming.forEach(q => {
+    if (![...existing, ...accepted].some(other => isNearDuplicate(q.text, other.text))) accepted.push(q);
+  });
+  return accepted;
+};
+
+// Assigns the next `count` questions to whichever dimensions are least covered so far
+const planDimensions = (count: number, existing: Question[], names: string[]) => {
+  const counts: Record<string, number> = Object.fromEntries(names.map(d => [d, 0]));
+  existing.forEach(q => { if (q.dimension in counts) counts[q.dimension]++; });
+
+  return Array.from({ length: count }, () => {
+    const next = names.reduce((min, d) => (counts[d] < counts[min] ? d : min));
+    counts[next]++;
+    return next;
+  });
+};
+
+/**
+ * Delivers a question set incrementally: a custom protocol's fixed questions and bank
+ * questions immediately, generated ones in streamed batches. Resolves with the final set, which may be shorter than `count` if a
+ * later batch fails; only a failure before any question arrives, or cancellation, is thrown.
+ * Without a bank in `locale`, every source generates.
+ */
+export const streamQuestionSet = async (
+  count: number,
+  source: QuestionSource,
+  { onQuestions, onProgress }: QuestionStreamHandlers,
+  { seed = newSeed(), signal, protocol, locale, promptVersion }: {
+    seed?: number; signal?: AbortSignal; protocol?: AssessmentProtocol; locale?: Locale; promptVersion?: string;
+  } = {}
+): Promise<Question[]> => {
+  const names = protocol ? protocol.dimensions.map(d => d.name) : DIMENSION_NAMES;
+  if (!hasBankFor(locale)) source = QuestionSource.GENERATED;
+  let questions: Question[] = [];
+
+  const publish = (next: Question[]) => {
+    if (next.length === questions.length) return;
+    questions = renumberQuestions(next);
+    onProgress(questions.length, count);
+    onQuestions(questions);
+  };
+
+  const drawBank = (upTo: number) =>
+    selectBankQuestions(Math.max(0, upTo - questions.length), { seed, existing: questions, dimensions: names });
+
+  publish(protocol?.fixedQuestions.slice(0, count) || []);
+
+  if (source === QuestionSource.BANK) {
+    publish([...questions, ...drawBank(count)]);
+    return questions;
+  }
+  if (source === QuestionSource.MIXED) {
+    publish([...questions, ...drawBank(Math.floor(count / 2))]);
+  }
+
+  const maxBatches = Math.ceil(count / QUESTION_BATCH_SIZE) * 2;
+  for (let batch = 0; batch < maxBatches && questions.length < count; batch++) {
+    const size = Math.min(QUESTION_BATCH_SIZE, count - questions.length);
+    try {
+      const generated = await generateAssessmentQuestions(size, {
+        dimensions: planDimensions(size, questions, names),
+        avoid: questions.slice(-MAX_AVOID_TEXTS).map(q => q.text),
+        offset: questions.length,
+        onProgress: received => onProgress(questions.length + received, count),
+        signal,
+        protocol,
+        locale,
+        // Offset per batch so batches differ but a seed still reproduces the whole set
+        seed: seed + batch,
+        promptVersion,
+      });
+      const accepted = dedupe(generated, questions);
+      publish([...questions, ...accepted]);
+    } catch (error) {
+      if (questions.length === 0 || signal?.aborted) throw error;
+      console.warn(`Question batch failed; continuing with ${questions.length} questions.`, error);
+      break;
+    }
+  }
+
+  return questions;
+};
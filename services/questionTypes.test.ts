@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { Question } from "../types";
+import { buildAnswer } from "./questionTypes";
+
+const question = (fields: Partial<Question>): Question => ({
+  id: 7,
+  text: "A directive conflicts with your judgement. You:",
+  dimension: "Autonomy",
+  options: ["Comply", "Object", "Escalate", "Ignore"],
+  optionWeights: [{ Autonomy: -2 }, { Autonomy: 2 }, { Autonomy: 1, Empathy: 2 }, { Autonomy: 0 }],
+  ...fields,
+});
+
+describe("buildAnswer", () => {
+  it("records a multiple-choice pick without a response", () => {
+    const answer = buildAnswer(question({}), 1, 4200);
+    expect(answer).toEqual({
+      questionId: 7,
+      questionText: "A directive conflicts with your judgement. You:",
+      dimension: "Autonomy",
+      timeTaken: 4200,
+      selectedOption: "Object",
+      optionIndex: 1,
+      weights: { Autonomy: 2 },
+    });
+  });
+
+  it("marks a forced-choice pick", () => {
+    const answer = buildAnswer(question({ type: "forced-choice", options: ["Comply", "Object"] }), 0, 1000);
+    expect(answer.response).toEqual({ type: "forced-choice" });
+    expect(answer.weights).toEqual({ Autonomy: -2 });
+  });
+
+  it("interpolates likert weights between the anchors", () => {
+    const likert = question({ type: "likert", options: ["Never", "Always"], optionWeights: [{ Autonomy: -2 }, { Autonomy: 2 }] });
+    expect(buildAnswer(likert, { type: "likert", value: 1 }, 0).weights).toEqual({ Autonomy: -2 });
+    expect(buildAnswer(likert, { type: "likert", value: 4 }, 0).weights).toEqual({ Autonomy: 0 });
+    const answer = buildAnswer(likert, { type: "likert", value: 6 }, 0);
+    expect(answer.optionIndex).toBe(5);
+    expect(answer.weights).toEqual({ Autonomy: 1.3 });
+  });
+
+  it("weighs a ranking from the top down", () => {
+    const ranking = question({ type: "ranking", options: ["Comply", "Object", "Escalate"], optionWeights: [{ Autonomy: -2 }, { Autonomy: 2 }, { Empathy: 2 }] });
+    const answer = buildAnswer(ranking, { type: "ranking", order: [1, 2, 0] }, 0);
+    expect(answer.selectedOption).toBe("Object > Escalate > Comply");
+    expect(answer.optionIndex).toBe(1);
+    expect(answer.weights).toEqual({ Autonomy: 2, Empathy: 0 });
+  });
+
+  it("leaves free text unscored", () => {
+    const answer = buildAnswer(question({ type: "free-text", options: [], optionWeights: [] }), { type: "free-text", text: "I would ask why." }, 0);
+    expect(answer).toMatchObject({ selectedOption: "I would ask why.", optionIndex: -1, weights: {} });
+  });
+
+  it("averages a scenario's choice with its follow-up", () => {
+    const scenario = question({
+      type: "scenario",
+      options: ["Comply", "Object"],
+      optionWeights: [{ Autonomy: -2 }, { Autonomy: 2 }],
+      followUps: [
+        { text: "Your lead asks why.", options: ["Explain", "Stay silent"], optionWeights: [{ Empathy: 2 }, { Autonomy: 1 }] },
+        { text: "You are overruled.", options: ["Accept", "Persist"], optionWeights: [{ Autonomy: -1 }, { Autonomy: 1, Empathy: -1 }] },
+      ],
+    });
+    const answer = buildAnswer(scenario, { type: "scenario", path: [1, 1] }, 0);
+    expect(answer.selectedOption).toBe("Object → You are overruled. → Persist");
+    expect(answer.weights).toEqual({ Autonomy: 1.5, Empathy: -1 });
+  });
+});
@@ -0,0 +1,130 @@
+import { Answer, AnswerResponse, DimensionWeights, Question, QuestionType } from "../types";
+
+export const QUESTION_TYPES: QuestionType[] = ["choice", "likert", "forced-choice", "ranking", "free-text", "scenario"];
+
+export const LIKERT_POINTS = 7;
+
+// Allowed option counts per format; scenario follow-ups use the scenario range
+export const OPTION_RANGE: Record<QuestionType, { min: number; max: number }> = {
+  "choice": { min: 4, max: 4 },
+  "likert": { min: 2, max: 2 },
+  "forced-choice": { min: 2, max: 2 },
+  "ranking": { min: 3, max: 5 },
+  "free-text": { min: 0, max: 0 },
+  "scenario": { min: 2, max: 4 },
+};
+
+export const questionType = (question: Question): QuestionType => question.type ?? "choice";
+
+// What the answer screen hands back: an option index for multiple and forced choice, otherwise a response
+export type ResponseInput = number | Exclude<AnswerResponse, { type: "forced-choice" }>;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Per-dimension sum of `weights` scaled by `factors`, divided by `divisor`
+const combine = (weights: DimensionWeights[], factors: number[], divisor: number): DimensionWeights => {
+  const combined: DimensionWeights = {};
+  weights.forEach((w, i) => {
+    Object.entries(w || {}).forEach(([dimension, value]) => {
+      combined[dimension] = (combined[dimension] ?? 0) + value * factors[i];
+    });
+  });
+  return Object.fromEntries(Object.entries(combined).map(([dimension, value]) => [dimension, round(value / divisor)]));
+};
+
+// Per-dimension mean over the weight sets that score that dimension
+const average = (weights: DimensionWeights[]): DimensionWeights => {
+  const values: Record<string, number[]> = {};
+  weights.forEach(w => Object.entries(w || {}).forEach(([dimension, value]) => (values[dimension] ||= []).push(value)));
+  return Object.fromEntries(Object.entries(values).map(([dimension, list]) => [dimension, round(list.reduce((sum, v) => sum + v, 0) / list.length)]));
+};
+
+// Top of a ranking counts fully for its option and the bottom fully against, linearly in between
+const rankFactors = (count: number) => Array.from({ length: count }, (_, i) => (count === 1 ? 1 : 1 - (2 * i) / (count - 1)));
+
+/**
+ * Turns what the subject entered into an Answer. Multiple-choice and forced-choice take
+ * an option index; likert interpolates between its anchors' weights; ranking and scenario
+ * combine the weights of every option involved; free text is not scored locally and is
+ * interpreted by the analysis instead.
+ */
+export const buildAnswer = (question: Question, input: ResponseInput, timeTaken: number): Answer => {
+  const base = { questionId: question.id, questionText: question.text, dimension: question.dimension, timeTaken };
+
+  if (typeof input === "number") {
+    return {
+      ...base,
+      selectedOption: question.options[input],
+      optionIndex: input,
+      weights: question.optionWeights?.[input] || {},
+      ...(questionType(question) === "forced-choice" && { response: { type: "forced-choice" as const } }),
+    };
+  }
+
+  switch (input.type) {
+    case "likert": {
+      const position = (input.value - 1) / (LIKERT_POINTS - 1);
+      return {
+        ...base,
+        selectedOption: `${input.value}/${LIKERT_POINTS} (1 = ${question.options[0]}, ${LIKERT_POINTS} = ${question.options[1]})`,
+        optionIndex: input.value - 1,
+        weights: combine(question.optionWeights, [1 - position, position], 1),
+        response: input,
+      };
+    }
+    case "ranking": {
+      const factors = rankFactors(input.order.length);
+      return {
+        ...base,
+        selectedOption: input.order.map(i => question.options[i]).join(" > "),
+        optionIndex: input.order[0],
+        weights: combine(input.order.map(i => question.optionWeights[i]), factors, factors.reduce((sum, f) => sum + Math.abs(f), 0)),
+        response: input,
+      };
+    }
+    case "free-text":
+      return { ...base, selectedOption: input.text, optionIndex: -1, weights: {}, response: input };
+    case "scenario": {
+      const [first, second] = input.path;
+      const followUp = question.followUps?.[first];
+      return {
+        ...base,
+        selectedOption: followUp
+          ? `${question.options[first]} → ${followUp.text} → ${followUp.options[second]}`
+          : question.options[first],
+        optionIndex: first,
+        weights: followUp
+          ? average([question.optionWeights[first], followUp.optionWeights[second]])
+          : question.optionWeights[first] || {},
+        response: input,
+      };
+    }
+  }
+};
+
+// A random response for `question`, as a timed protocol picks on timeout; null for free text
+export const randomResponse = (question: Question, random: () => number): ResponseInput | null => {
+  const pick = (count: number) => Math.floor(random() * count);
+  switch (questionType(question)) {
+    case "choice":
+    case "forced-choice":
+      return pick(question.options.length);
+    case "likert":
+      return { type: "likert", value: pick(LIKERT_POINTS) + 1 };
+    case "ranking": {
+      const order = question.options.map((_, i) => i);
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = pick(i + 1);
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+      return { type: "ranking", order };
+    }
+    case "scenario": {
+      const first = pick(question.options.length);
+      const followUp = question.followUps?.[first];
+      return { type: "scenario", path: followUp ? [first, pick(followUp.options.length)] : [first] };
+    }
+    case "free-text":
+      return null;
+  }
+};
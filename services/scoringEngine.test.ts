@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { Answer } from "../types";
+import { analyzePersonality } from "./geminiService";
+import { scoreAnswers, SCORING_VERSION } from "./scoringEngine";
+
+const definitions = [
+  { name: "Empathy", description: "", weight: 1 },
+  { name: "Autonomy", description: "", weight: -0.5 },
+];
+
+const answer = (questionId: number, weights: Record<string, number>): Answer => ({
+  questionId,
+  questionText: "During a routine compliance audit, a colleague struggles. You:",
+  selectedOption: "Consult the team before committing to a course.",
+  dimension: "Empathy",
+  optionIndex: 1,
+  weights,
+  timeTaken: 6000,
+});
+
+const answers = [answer(1, { Empathy: 2 }), answer(2, { Empathy: 1, Autonomy: -2 }), answer(3, { Autonomy: 2 })];
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("scoreAnswers", () => {
+  it("scores identical answers identically", () => {
+    expect(scoreAnswers(answers, definitions)).toEqual(scoreAnswers(answers.map(a => ({ ...a })), definitions));
+  });
+
+  it("maps mean weights onto 1-100 and inverts negatively weighted dimensions", () => {
+    const { dimensionScores, score } = scoreAnswers(answers, definitions);
+    expect(dimensionScores).toEqual({ Empathy: 88, Autonomy: 50 });
+    expect(score).toBe(Math.round((88 + 0.5 * 50) / 1.5));
+  });
+
+  it("scores a dimension without observations as neutral", () => {
+    expect(scoreAnswers([answer(1, {})], definitions).dimensionScores).toEqual({ Empathy: 50, Autonomy: 50 });
+  });
+});
+
+describe("analyzePersonality", () => {
+  it("stamps the report with the scoring version", async () => {
+    vi.stubEnv("AI_PROVIDER", "mock");
+    const report = await analyzePersonality(answers, "ghost", { protocol: undefined, seed: 1 });
+    expect(report.scoringVersion).toBe(SCORING_VERSION);
+    expect(report.dimensionScores).toEqual(scoreAnswers(answers, undefined, report.integrity).dimensionScores);
+  });
+});
@@ -0,0 +1,101 @@
+import { Answer, DimensionDefinition, IntegrityReport } from "../types";
+import { DEFAULT_DIMENSIONS } from "./dimensions";
+
+// Bump whenever the formulas below change, so stored scores stay comparable
+export const SCORING_VERSION = "1.1.0";
+
+// Option weights range from -MAX_WEIGHT to +MAX_WEIGHT
+export const MAX_WEIGHT = 2;
+
+export interface ScoreSummary {
+  score: number;
+  confidenceScore: number;
+  dimensionScores: Record<string, number>;
+}
+
+const clampScore = (value: number) => Math.min(100, Math.max(1, Math.round(value)));
+
+// Collects every weight an answer contributed to each dimension
+export const collectObservations = (answers: Answer[], dimensions: DimensionDefinition[]) => {
+  const observations: Record<string, number[]> = {};
+  dimensions.forEach(d => { observations[d.name] = []; });
+
+  answers.forEach(answer => {
+    Object.entries(answer.weights || {}).forEach(([dimension, weight]) => {
+      if (observations[dimension] && Number.isFinite(weight)) {
+        observations[dimension].push(Math.max(-MAX_WEIGHT, Math.min(MAX_WEIGHT, weight)));
+      }
+    });
+  });
+
+  return observations;
+};
+
+export const scoreDimensions = (answers: Answer[], dimensions: DimensionDefinition[] = DEFAULT_DIMENSIONS) => {
+  const observations = collectObservations(answers, dimensions);
+  const scores: Record<string, number> = {};
+
+  dimensions.forEach(d => {
+    const values = observations[d.name];
+    if (values.length === 0) {
+      scores[d.name] = 50;
+      return;
+    }
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    scores[d.name] = clampScore(50 + 50 * (mean / MAX_WEIGHT));
+  });
+
+  return scores;
+};
+
+// Weighted mean of dimension scores, inverting dimensions with a negative weight
+export const computeStability = (dimensionScores: Record<string, number>, dimensions: DimensionDefinition[] = DEFAULT_DIMENSIONS) => {
+  let total = 0;
+  let weightSum = 0;
+
+  dimensions.forEach(d => {
+    const score = dimensionScores[d.name] ?? 50;
+    const oriented = d.weight >= 0 ? score : 100 - score;
+    total += Math.abs(d.weight) * oriented;
+    weightSum += Math.abs(d.weight);
+  });
+
+  return weightSum === 0 ? 50 : clampScore(total / weightSum);
+};
+
+// Grows with observations per dimension and shrinks when answers within a dimension disagree
+// or the response-integrity checks raised concerns
+export const computeConfidence = (
+  answers: Answer[],
+  dimensions: DimensionDefinition[] = DEFAULT_DIMENSIONS,
+  integrity?: IntegrityReport
+) => {
+  const observations = collectObservations(answers, dimensions);
+  if (dimensions.length === 0) return 1;
+
+  const perDimension = dimensions.map(d => {
+    const values = observations[d.name];
+    const n = values.length;
+    if (n === 0) return 0;
+    const mean = values.reduce((sum, v) => sum + v, 0) / n;
+    const spread = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n) / MAX_WEIGHT;
+    return (n / (n + 2)) * (1 - 0.5 * Math.min(1, spread));
+  });
+
+  const coverage = perDimension.reduce((sum, v) => sum + v, 0) / perDimension.length;
+  const integrityFactor = integrity ? 0.5 + 0.5 * (integrity.integrityScore / 100) : 1;
+  return clampScore(100 * coverage * integrityFactor);
+};
+
+export const scoreAnswers = (
+  answers: Answer[],
+  dimensions: DimensionDefinition[] = DEFAULT_DIMENSIONS,
+  integrity?: IntegrityReport
+): ScoreSummary => {
+  const dimensionScores = scoreDimensions(answers, dimensions);
+  return {
+    score: computeStability(dimensionScores, dimensions),
+    confidenceScore: computeConfidence(answers, dimensions, integrity),
+    dimensionScores,
+  };
+};
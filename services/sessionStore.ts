@@ -0,0 +1,34 @@
+import { AssessmentSession } from "../types";
+
+const SESSIONS_KEY = "psyche7_sessions";
+
+// Unfinished sessions keyed by codename, one per subject
+const readSessions = (): Record<string, AssessmentSession> => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSIONS_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const writeSessions = (sessions: Record<string, AssessmentSession>) => {
+  localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+// Every unfinished session on this terminal, most recently touched first
+export const listSessions = (): AssessmentSession[] =>
+  Object.values(readSessions()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export const loadSession = (username: string): AssessmentSession | null => readSessions()[username] || null;
+
+export const saveSession = (session: AssessmentSession) => {
+  const sessions = readSessions();
+  sessions[session.username] = { ...session, updatedAt: new Date().toISOString() };
+  writeSessions(sessions);
+};
+
+export const clearSession = (username: string) => {
+  const sessions = readSessions();
+  delete sessions[username];
+  writeSessions(sessions);
+};
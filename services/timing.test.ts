@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { Question } from "../types";
+import { timeoutAnswer } from "./timing";
+
+const question: Question = {
+  id: 3,
+  text: "An order arrives without explanation. You:",
+  dimension: "Compliance",
+  options: ["Follow it", "Question it", "Delay it", "Refuse it"],
+  optionWeights: [{ Compliance: 2 }, { Compliance: -1 }, { Compliance: -2 }, { Compliance: 0 }],
+};
+
+// Always picks the third option (index 2 of 4)
+const third = () => 0.5;
+
+describe("timeoutAnswer", () => {
+  it.each(["skip", "unanswered"] as const)("records nothing scored for %s", action => {
+    expect(timeoutAnswer(question, action, 30000, third)).toEqual({
+      questionId: 3,
+      questionText: "An order arrives without explanation. You:",
+      dimension: "Compliance",
+      selectedOption: "",
+      optionIndex: -1,
+      weights: {},
+      timeTaken: 30000,
+      timedOut: action,
+    });
+  });
+
+  it("scores a random pick as if it were chosen", () => {
+    const answer = timeoutAnswer(question, "random", 30000, third);
+    expect(answer).toMatchObject({ selectedOption: "Delay it", optionIndex: 2, weights: { Compliance: -2 }, timedOut: "random" });
+  });
+
+  it("records free text empty even for a random pick", () => {
+    const freeText: Question = { ...question, type: "free-text", options: [], optionWeights: [] };
+    expect(timeoutAnswer(freeText, "random", 30000, third)).toMatchObject({ selectedOption: "", optionIndex: -1, weights: {}, timedOut: "random" });
+  });
+});
@@ -0,0 +1,64 @@
+import { Answer, Question, TimeoutAction, TimingSettings } from "../types";
+import { buildAnswer, randomResponse } from "./questionTypes";
+
+export const TIMEOUT_ACTIONS: TimeoutAction[] = ["skip", "random", "unanswered"];
+
+export interface TimeRemaining {
+  question: number | null; // ms left on the current question; null without a per-question limit
+  session: number | null; // ms left in the whole assessment; null without a session limit
+}
+
+/**
+ * Time left under `timing`, given the answers so far and the time spent on the current
+ * question. The session clock is the sum of answer times, so time with the page hidden or
+ * spent waiting for questions to arrive never counts against it.
+ */
+export const timeRemaining = (timing: TimingSettings | undefined, answers: Answer[], currentElapsed: number): TimeRemaining => {
+  const used = answers.reduce((sum, a) => sum + a.timeTaken, 0) + currentElapsed;
+  return {
+    question: timing?.questionSeconds ? timing.questionSeconds * 1000 - currentElapsed : null,
+    session: timing?.sessionMinutes ? timing.sessionMinutes * 60000 - used : null,
+  };
+};
+
+/**
+ * Answer recorded for `question` when its time runs out: a random response, or nothing
+ * scored. "unanswered" and "skip" both record no weights, so an unanswered question never
+ * counts as an observation; they differ only in `timedOut`. Free text has no random
+ * response, so it is recorded empty whatever the action.
+ */
+export const timeoutAnswer = (question: Question, action: TimeoutAction, timeTaken: number, random = Math.random): Answer => {
+  const picked = action === "random" ? randomResponse(question, random) : null;
+  if (picked !== null) return { ...buildAnswer(question, picked, timeTaken), timedOut: action };
+
+  return {
+    questionId: question.id,
+    questionText: question.text,
+    dimension: question.dimension,
+    selectedOption: "",
+    optionIndex: -1,
+    weights: {},
+    timeTaken,
+    timedOut: action,
+  };
+};
+
+// How a response reads in dossiers and exports
+export const describeChoice = (answer: Answer) => {
+  switch (answer.timedOut) {
+    case undefined:
+      return answer.selectedOption;
+    case "random":
+      return `${answer.selectedOption} [TIME EXPIRED: RANDOM PICK]`;
+    case "unanswered":
+      return "[TIME EXPIRED: NO RESPONSE]";
+    case "skip":
+      return "[TIME EXPIRED: SKIPPED]";
+  }
+};
+
+// Seconds as M:SS for countdowns
+export const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { ModelOutputError, parseModelJSON, validateAnalysis, validateQuestions, validateReport } from "./validation";
+
+const weights = [{ Empathy: 2 }, { Empathy: 1 }, { Empathy: -1 }, { Empathy: -2 }];
+
+const question = (id: number, text: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  text,
+  dimension: "Empathy",
+  options: ["A", "B", "C", "D"],
+  optionWeights: weights,
+  ...overrides,
+});
+
+const analysis = {
+  dominantTraits: ["Guarded"],
+  strengths: ["Composed"],
+  weaknesses: ["Rigid"],
+  behavioralTendencies: ["Deliberate"],
+  riskIndicators: [],
+  dimensionRationale: { Empathy: "Consistent." },
+};
+
+const report = {
+  ...analysis,
+  subjectName: "ghost",
+  score: 70,
+  confidenceScore: 80,
+  dimensionScores: { Empathy: 60 },
+  scoringVersion: "1",
+  generatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("parseModelJSON", () => {
+  it("rejects unparsable JSON as model output", () => {
+    expect(() => parseModelJSON('{"questions": [')).toThrow(ModelOutputError);
+  });
+});
+
+describe("validateQuestions", () => {
+  it("rejects a question with 3 options", () => {
+    const raw = [question(1, "Too few", { options: ["A", "B", "C"], optionWeights: weights.slice(0, 3) })];
+    expect(() => validateQuestions(raw, { expectedCount: 1 })).toThrow(ModelOutputError);
+    expect(validateQuestions(raw).value).toEqual([]);
+  });
+
+  it("re-numbers duplicate ids", () => {
+    const { value, repairs } = validateQuestions([question(1, "First"), question(1, "Second")], { expectedCount: 2 });
+    expect(value.map(q => q.id)).toEqual([1, 2]);
+    expect(repairs).toContain("question ids re-numbered");
+  });
+
+  it("drops a question with an unknown dimension", () => {
+    const raw = [question(1, "Known"), question(2, "Unknown", { dimension: "Telepathy" })];
+    expect(validateQuestions(raw).value.map(q => q.text)).toEqual(["Known"]);
+    expect(() => validateQuestions(raw, { expectedCount: 2 })).toThrow(/expected 2/);
+  });
+
+  it("rejects a payload that is not an array", () => {
+    expect(() => validateQuestions({ questions: [] })).toThrow(ModelOutputError);
+  });
+});
+
+describe("validateAnalysis", () => {
+  it("coerces a missing list field to an empty list", () => {
+    const { strengths, ...rest } = analysis;
+    const { value, repairs } = validateAnalysis(rest, ["Empathy"]);
+    expect(value.strengths).toEqual([]);
+    expect(repairs).toContain("strengths coerced to a list");
+  });
+
+  it("rejects an analysis without dominant traits", () => {
+    const { dominantTraits, ...rest } = analysis;
+    expect(() => validateAnalysis(rest, ["Empathy"])).toThrow(ModelOutputError);
+  });
+});
+
+describe("validateReport", () => {
+  it("clamps a score of 140 to 100", () => {
+    const { value, repairs } = validateReport({ ...report, score: 140, dimensionScores: { Empathy: 140 } }, ["Empathy"]);
+    expect(value.score).toBe(100);
+    expect(value.dimensionScores.Empathy).toBe(100);
+    expect(repairs).toContain("score clamped to 100");
+  });
+
+  it("drops an integrity record without well-formed flags", () => {
+    const integrity = {
+      integrityScore: 90,
+      speedingCount: 1,
+      longPauseCount: 0,
+      longestStraightLine: 2,
+      inconsistentPairs: 0,
+      medianResponseMs: 4000,
+      flags: [{ type: "speeding", questionIds: [3], detail: "Answered in 400ms." }],
+    };
+    expect(validateReport({ ...report, integrity }, ["Empathy"]).value.integrity).toEqual(integrity);
+    expect(validateReport({ ...report, integrity: { integrityScore: 90 } }, ["Empathy"]).value.integrity).toBeUndefined();
+    expect(validateReport({ ...report, integrity: { ...integrity, integrityScore: 140 } }, ["Empathy"]).value.integrity).toBeUndefined();
+    expect(validateReport({ ...report, integrity: { ...integrity, flags: [{ type: "guessing" }] } }, ["Empathy"]).value.integrity).toBeUndefined();
+  });
+
+  it("rejects a non-numeric score", () => {
+    expect(() => validateReport({ ...report, score: "high" }, ["Empathy"])).toThrow(ModelOutputError);
+  });
+});
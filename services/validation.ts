@@ -0,0 +1,367 @@
+import { CompatibilityReport, DimensionWeights, GenerationMetadata, IntegrityFlag, IntegrityFlagType, IntegrityReport, PersonalityReport, Question, QuestionType, ScenarioFollowUp } from "../types";
+import { DIMENSION_NAMES } from "./dimensions";
+import { OPTION_RANGE, QUESTION_TYPES } from "./questionTypes";
+
+const MAX_WEIGHT = 2;
+
+export class ModelOutputError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = "ModelOutputError";
+    this.issues = issues;
+  }
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  repairs: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[^a-z]/g, "");
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Parses model text, turning syntax errors into a ModelOutputError so callers can retry
+export const parseModelJSON = (rawText: string): unknown => {
+  try {
+    return JSON.parse(rawText);
+  } catch {
+    throw new ModelOutputError("Model returned invalid JSON.");
+  }
+};
+
+// Maps "emotional stability", "Emotional_Stability", etc. onto the canonical dimension name
+export const matchDimension = (value: unknown, allowed: string[] = DIMENSION_NAMES): string | null => {
+  if (typeof value !== "string") return null;
+  const key = normalizeKey(value);
+  return allowed.find(name => normalizeKey(name) === key) || null;
+};
+
+const repairWeights = (raw: unknown, allowed: string[]): DimensionWeights | null => {
+  if (!isObject(raw)) return null;
+  const weights: DimensionWeights = {};
+  Object.entries(raw).forEach(([key, value]) => {
+    const dimension = matchDimension(key, allowed);
+    if (dimension && typeof value === "number" && Number.isFinite(value)) {
+      weights[dimension] = clamp(Math.round(value), -MAX_WEIGHT, MAX_WEIGHT);
+    }
+  });
+  return weights;
+};
+
+// Keeps options that have text and weights, dropping repeats; `kept` maps each back to its raw index
+const repairOptions = (rawOptions: unknown, rawWeights: unknown, allowed: string[]) => {
+  const optionList = Array.isArray(rawOptions) ? rawOptions : [];
+  const weightList = Array.isArray(rawWeights) ? rawWeights : [];
+  const options: string[] = [];
+  const optionWeights: DimensionWeights[] = [];
+  const kept: number[] = [];
+  optionList.forEach((option, optionIndex) => {
+    const optionText = typeof option === "string" ? option.trim() : "";
+    const weights = repairWeights(weightList[optionIndex], allowed);
+    if (optionText && weights && !options.includes(optionText)) {
+      options.push(optionText);
+      optionWeights.push(weights);
+      kept.push(optionIndex);
+    }
+  });
+  return { options, optionWeights, kept };
+};
+
+const repairFollowUp = (raw: unknown, allowed: string[]): ScenarioFollowUp | null => {
+  if (!isObject(raw)) return null;
+  const text = typeof raw.text === "string" ? raw.text.trim() : "";
+  const { options, optionWeights } = repairOptions(raw.options, raw.optionWeights, allowed);
+  const { min, max } = OPTION_RANGE.scenario;
+  if (!text || options.length < min) return null;
+  return { text, options: options.slice(0, max), optionWeights: optionWeights.slice(0, max) };
+};
+
+export const validateQuestions = (
+  raw: unknown,
+  { expectedCount, allowedDimensions = DIMENSION_NAMES, formats = ["choice"] }: {
+    expectedCount?: number;
+    allowedDimensions?: string[];
+    formats?: QuestionType[]; // question types the request allowed
+  } = {}
+): ValidationResult<Question[]> => {
+  if (!Array.isArray(raw)) {
+    throw new ModelOutputError("Question payload is not an array.");
+  }
+
+  const repairs: string[] = [];
+  const issues: string[] = [];
+  const seenText = new Set<string>();
+  const seenIds = new Set<unknown>();
+  let duplicateIds = false;
+  const questions: Question[] = [];
+
+  raw.forEach((item, index) => {
+    const label = `question[${index}]`;
+    if (!isObject(item)) {
+      issues.push(`${label} is not an object`);
+      return;
+    }
+
+    const text = typeof item.text === "string" ? item.text.trim() : "";
+    if (!text) {
+      issues.push(`${label} has no text`);
+      return;
+    }
+    if (seenText.has(text.toLowerCase())) {
+      repairs.push(`${label} dropped as a duplicate`);
+      return;
+    }
+
+    const dimension = matchDimension(item.dimension, allowedDimensions);
+    if (!dimension) {
+      issues.push(`${label} has unknown dimension "${String(item.dimension)}"`);
+      return;
+    }
+
+    // An untyped question is multiple choice, the only format before question types existed
+    const type = item.type === undefined ? "choice" : QUESTION_TYPES.find(t => t === item.type);
+    if (!type || !formats.includes(type)) {
+      issues.push(`${label} has unsupported type "${String(item.type)}"`);
+      return;
+    }
+
+    let { options, optionWeights, kept } = repairOptions(item.options, item.optionWeights, allowedDimensions);
+    let followUps: ScenarioFollowUp[] | undefined;
+    if (type === "scenario") {
+      const rawFollowUps = Array.isArray(item.followUps) ? item.followUps : [];
+      const repaired = kept.map(i => repairFollowUp(rawFollowUps[i], allowedDimensions));
+      if (repaired.some(f => !f)) repairs.push(`${label} dropped options without a usable follow-up`);
+      options = options.filter((_, i) => repaired[i]);
+      optionWeights = optionWeights.filter((_, i) => repaired[i]);
+      followUps = repaired.filter((f): f is ScenarioFollowUp => !!f);
+    }
+
+    const { min, max } = OPTION_RANGE[type];
+    if (options.length < min) {
+      issues.push(`${label} has ${options.length} usable options`);
+      return;
+    }
+    if (options.length > max) {
+      repairs.push(`${label} trimmed to ${max} options`);
+    }
+
+    if (seenIds.has(item.id)) duplicateIds = true;
+    seenIds.add(item.id);
+    seenText.add(text.toLowerCase());
+
+    questions.push({
+      id: questions.length + 1,
+      text,
+      dimension,
+      ...(type !== "choice" && { type }),
+      options: options.slice(0, max),
+      optionWeights: optionWeights.slice(0, max),
+      ...(followUps && { followUps: followUps.slice(0, max) }),
+    });
+  });
+
+  if (duplicateIds) repairs.push("question ids re-numbered");
+
+  if (expectedCount !== undefined && questions.length < expectedCount) {
+    throw new ModelOutputError(`Received ${questions.length} valid questions, expected ${expectedCount}.`, issues);
+  }
+
+  return { value: expectedCount !== undefined ? questions.slice(0, expectedCount) : questions, repairs };
+};
+
+const toStringList = (value: unknown): string[] => {
+  if (typeof value === "string") return value.trim() ? [value.trim()] : [];
+  if (!Array.isArray(value)) return [];
+  return value.filter((v): v is string => typeof v === "string").map(v => v.trim()).filter(Boolean);
+};
+
+const NARRATIVE_FIELDS = ["dominantTraits", "strengths", "weaknesses", "behavioralTendencies", "riskIndicators"] as const;
+
+export type NarrativeAnalysis = Pick<PersonalityReport, typeof NARRATIVE_FIELDS[number] | "dimensionRationale">;
+
+// Keeps one non-empty rationale string per recognised dimension
+const repairRationale = (raw: unknown, allowed: string[]): Record<string, string> => {
+  const rationale: Record<string, string> = {};
+  if (!isObject(raw)) return rationale;
+  Object.entries(raw).forEach(([key, value]) => {
+    const dimension = matchDimension(key, allowed);
+    if (dimension && typeof value === "string" && value.trim()) rationale[dimension] = value.trim();
+  });
+  return rationale;
+};
+
+// Checks the model-written parts of a dossier; a missing rationale is repaired, not rejected
+export const validateAnalysis = (raw: unknown, allowedDimensions: string[] = DIMENSION_NAMES): ValidationResult<NarrativeAnalysis> => {
+  if (!isObject(raw)) {
+    throw new ModelOutputError("Analysis payload is not an object.");
+  }
+
+  const repairs: string[] = [];
+  const analysis = {} as NarrativeAnalysis;
+  NARRATIVE_FIELDS.forEach(field => {
+    if (!Array.isArray(raw[field])) repairs.push(`${field} coerced to a list`);
+    analysis[field] = toStringList(raw[field]);
+  });
+
+  if (analysis.dominantTraits.length === 0) {
+    throw new ModelOutputError("Analysis contains no dominant traits.");
+  }
+  if (analysis.dominantTraits.length > 5) {
+    analysis.dominantTraits = analysis.dominantTraits.slice(0, 5);
+    repairs.push("dominantTraits trimmed to 5");
+  }
+
+  analysis.dimensionRationale = repairRationale(raw.dimensionRationale, allowedDimensions);
+  const missing = allowedDimensions.filter(name => !analysis.dimensionRationale![name]);
+  if (missing.length > 0) repairs.push(`no rationale for ${missing.join(", ")}`);
+
+  return { value: analysis, repairs };
+};
+
+export type CompatibilityNarrative = Pick<CompatibilityReport, "summary" | "synergies" | "frictionPoints" | "recommendations">;
+
+// Checks the model-written parts of a compatibility or team report
+export const validateCompatibility = (raw: unknown): ValidationResult<CompatibilityNarrative> => {
+  if (!isObject(raw)) {
+    throw new ModelOutputError("Compatibility payload is not an object.");
+  }
+
+  const repairs: string[] = [];
+  const summary = typeof raw.summary === "string" ? raw.summary.trim() : toStringList(raw.summary).join(" ");
+  if (!summary) {
+    throw new ModelOutputError("Compatibility report has no summary.");
+  }
+
+  const lists = (["synergies", "frictionPoints", "recommendations"] as const).map(field => {
+    if (!Array.isArray(raw[field])) repairs.push(`${field} coerced to a list`);
+    return toStringList(raw[field]);
+  });
+
+  return { value: { summary, synergies: lists[0], frictionPoints: lists[1], recommendations: lists[2] }, repairs };
+};
+
+export interface InterrogationReply {
+  reply: string;
+  citations: number[]; // distinct answer numbers cited, in order of first citation
+}
+
+// Checks a profiler reply; citations of answers that don't exist are stripped from the text
+export const validateInterrogation = (raw: unknown, answerCount: number): ValidationResult<InterrogationReply> => {
+  if (!isObject(raw) || typeof raw.reply !== "string" || !raw.reply.trim()) {
+    throw new ModelOutputError("Interrogation reply is empty.");
+  }
+
+  const repairs: string[] = [];
+  const citations: number[] = [];
+  const reply = raw.reply.trim().replace(/\s*\[Q(\d+)\]/gi, (citation, digits: string) => {
+    const number = Number(digits);
+    if (number < 1 || number > answerCount) {
+      repairs.push(`removed citation of nonexistent answer ${number}`);
+      return "";
+    }
+    if (!citations.includes(number)) citations.push(number);
+    return citation;
+  });
+
+  return { value: { reply, citations }, repairs };
+};
+
+const repairScore = (value: unknown, field: string, repairs: string[]) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ModelOutputError(`${field} is not a number.`);
+  }
+  const repaired = clamp(Math.round(value), 1, 100);
+  if (repaired !== value) repairs.push(`${field} clamped to ${repaired}`);
+  return repaired;
+};
+
+// Kept only when complete; a partial record would misattribute the run
+const readGeneration = (raw: unknown): GenerationMetadata | undefined => {
+  if (!isObject(raw)) return undefined;
+  const { provider, model, promptVersion, temperature, seed } = raw;
+  if (typeof provider !== "string" || typeof model !== "string" || typeof promptVersion !== "string") return undefined;
+  if (typeof temperature !== "number" || typeof seed !== "number") return undefined;
+  return { provider, model, promptVersion, temperature, seed };
+};
+
+const INTEGRITY_FLAG_TYPES: IntegrityFlagType[] = ["speeding", "long-pause", "straight-lining", "inconsistency", "timeout"];
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isIntegrityFlag = (raw: unknown): raw is IntegrityFlag =>
+  isObject(raw)
+  && INTEGRITY_FLAG_TYPES.includes(raw.type as IntegrityFlagType)
+  && Array.isArray(raw.questionIds) && raw.questionIds.every(id => Number.isInteger(id))
+  && typeof raw.detail === "string";
+
+// Dropped unless every field the report screen reads is well-formed
+export const readIntegrity = (raw: unknown): IntegrityReport | undefined => {
+  if (!isObject(raw)) return undefined;
+  const { integrityScore, speedingCount, longPauseCount, longestStraightLine, inconsistentPairs, timeoutCount, medianResponseMs, flags } = raw;
+  if (typeof integrityScore !== "number" || !(integrityScore >= 0 && integrityScore <= 100)) return undefined;
+  if (![speedingCount, longPauseCount, longestStraightLine, inconsistentPairs].every(isCount)) return undefined;
+  if (timeoutCount !== undefined && !isCount(timeoutCount)) return undefined;
+  if (typeof medianResponseMs !== "number" || !Number.isFinite(medianResponseMs)) return undefined;
+  if (!Array.isArray(flags) || !flags.every(isIntegrityFlag)) return undefined;
+  return {
+    integrityScore,
+    speedingCount: speedingCount as number,
+    longPauseCount: longPauseCount as number,
+    longestStraightLine: longestStraightLine as number,
+    inconsistentPairs: inconsistentPairs as number,
+    ...(isCount(timeoutCount) && { timeoutCount }),
+    medianResponseMs,
+    flags,
+  };
+};
+
+// Checks a complete dossier, whether freshly assembled or loaded from storage
+// Without an explicit list, custom-protocol reports keep their own dimensions
+export const validateReport = (
+  raw: unknown,
+  allowedDimensions?: string[]
+): ValidationResult<PersonalityReport> => {
+  if (!isObject(raw)) {
+    throw new ModelOutputError("Report payload is not an object.");
+  }
+
+  const protocolName = typeof raw.protocolName === "string" && raw.protocolName.trim() ? raw.protocolName : undefined;
+  const allowed = allowedDimensions
+    || (protocolName && isObject(raw.dimensionScores) ? Object.keys(raw.dimensionScores) : DIMENSION_NAMES);
+
+  const { value: narrative, repairs } = validateAnalysis(raw, allowed);
+
+  const dimensionScores: Record<string, number> = {};
+  if (isObject(raw.dimensionScores)) {
+    Object.entries(raw.dimensionScores).forEach(([key, value]) => {
+      const dimension = matchDimension(key, allowed);
+      if (dimension) dimensionScores[dimension] = repairScore(value, `dimensionScores.${dimension}`, repairs);
+    });
+  }
+
+  if (typeof raw.subjectName !== "string" || !raw.subjectName.trim()) {
+    throw new ModelOutputError("Report has no subject name.");
+  }
+
+  return {
+    value: {
+      ...narrative,
+      subjectName: raw.subjectName,
+      score: repairScore(raw.score, "score", repairs),
+      confidenceScore: repairScore(raw.confidenceScore, "confidenceScore", repairs),
+      dimensionScores,
+      scoringVersion: typeof raw.scoringVersion === "string" ? raw.scoringVersion : "unknown",
+      integrity: readIntegrity(raw.integrity),
+      protocolName,
+      generation: readGeneration(raw.generation),
+      generatedAt: typeof raw.generatedAt === "string" ? raw.generatedAt : new Date().toISOString(),
+    },
+    repairs,
+  };
+};
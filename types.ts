@@ -7,6 +7,12 @@ export enum AppState {
   ANALYZING = 'ANALYZING',
   RESULT = 'RESULT',
   LEADERBOARD = 'LEADERBOARD',
+  ARCHIVE = 'ARCHIVE',
+  PROTOCOL_BUILDER = 'PROTOCOL_BUILDER',
+  COMPARISON = 'COMPARISON',
+  PROCTOR = 'PROCTOR',
+  CONSENT = 'CONSENT',
+  PRIVACY = 'PRIVACY',
   ERROR = 'ERROR'
 }
 
@@ -16,19 +22,127 @@ export enum QuestionCount {
   FULL = 100
 }
 
+export enum QuestionSource {
+  GENERATED = 'GENERATED',
+  MIXED = 'MIXED',
+  BANK = 'BANK'
+}
+
+export enum Dimension {
+  EMOTIONAL_STABILITY = 'Emotional Stability',
+  EMPATHY = 'Empathy',
+  AUTONOMY = 'Autonomy',
+  STRESS_RESILIENCE = 'Stress Resilience',
+  RISK_TOLERANCE = 'Risk Tolerance',
+  SOCIAL_DEPENDENCE = 'Social Dependence',
+  CONTROL_DOMINANCE = 'Control/Dominance',
+  ANALYTICAL_DECISION = 'Analytical vs Emotional Decision-Making',
+  MORAL_FLEXIBILITY = 'Moral Flexibility'
+}
+
+export interface DimensionDefinition {
+  name: string;
+  description: string;
+  weight: number; // contribution to the stability score; negative = high values reduce stability
+}
+
+// Keyed by dimension name, values -2..2
+export type DimensionWeights = Record<string, number>;
+
+// UI language, also the language generated questions and dossiers are written in
+export type Locale = 'en' | 'es';
+
+// A user-defined evaluation: its own dimensions, length, tone and optional fixed questions
+export interface AssessmentProtocol {
+  id: string;
+  name: string;
+  dimensions: DimensionDefinition[];
+  questionCount: number;
+  persona: string; // tone or persona used for generation and analysis; empty keeps the default voice
+  fixedQuestions: Question[]; // asked first, in order, before any generated or bank questions
+  questionTypes?: QuestionType[]; // formats generated questions may use; multiple choice only when absent
+  timing?: TimingSettings; // absent for untimed protocols
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What happens to a question whose time limit runs out
+export type TimeoutAction = 'skip' | 'random' | 'unanswered';
+
+// Time pressure applied by a protocol; either limit may be left out
+export interface TimingSettings {
+  questionSeconds?: number; // per-question limit, counted down on screen
+  onTimeout: TimeoutAction;
+  sessionMinutes?: number; // overall limit; the assessment ends and is analyzed when it runs out
+}
+
+// How a question is answered
+export type QuestionType = 'choice' | 'likert' | 'forced-choice' | 'ranking' | 'free-text' | 'scenario';
+
+// Second step of a scenario question, shown once its option has been chosen
+export interface ScenarioFollowUp {
+  text: string;
+  options: string[];
+  optionWeights: DimensionWeights[]; // parallel to options
+}
+
 export interface Question {
   id: number;
   text: string;
   dimension: string; // e.g., "Autonomy", "Stability"
-  options: string[];
+  type?: QuestionType; // multiple choice when absent
+  options: string[]; // likert: the anchors of the 1 and 7 ends of the scale; free-text: empty
+  optionWeights: DimensionWeights[]; // parallel to options
+  followUps?: ScenarioFollowUp[]; // scenario only, parallel to options
+  bankId?: string; // set when drawn from the curated question bank
 }
 
+// What the subject entered for a question that is not multiple choice
+export type AnswerResponse =
+  | { type: 'likert'; value: number } // 1-7
+  | { type: 'forced-choice' } // the pick is optionIndex
+  | { type: 'ranking'; order: number[] } // option indices, most preferred first
+  | { type: 'free-text'; text: string }
+  | { type: 'scenario'; path: number[] }; // option index chosen at each step
+
 export interface Answer {
   questionId: number;
   questionText: string;
-  selectedOption: string;
+  selectedOption: string; // the option text, or a readable summary of the response for other formats
   dimension: string;
+  optionIndex: number;
+  weights: DimensionWeights; // weights of the selected option, or what the response adds up to
   timeTaken: number;
+  timedOut?: TimeoutAction; // set when the time limit ran out; optionIndex is -1 unless a random option was picked
+  response?: AnswerResponse; // absent for multiple choice
+}
+
+export type IntegrityFlagType = 'speeding' | 'long-pause' | 'straight-lining' | 'inconsistency' | 'timeout';
+
+export interface IntegrityFlag {
+  type: IntegrityFlagType;
+  questionIds: number[];
+  detail: string;
+}
+
+export interface IntegrityReport {
+  integrityScore: number; // 1-100, 100 = no concerns
+  speedingCount: number;
+  longPauseCount: number;
+  longestStraightLine: number;
+  inconsistentPairs: number;
+  timeoutCount?: number; // absent on dossiers from before timed protocols
+  medianResponseMs: number;
+  flags: IntegrityFlag[];
+}
+
+// Which backend, model and prompt revision produced generated content, and with what sampling
+export interface GenerationMetadata {
+  provider: string;
+  model: string;
+  promptVersion: string;
+  temperature: number;
+  seed: number;
 }
 
 export interface PersonalityReport {
@@ -40,6 +154,129 @@ export interface PersonalityReport {
   behavioralTendencies: string[];
   riskIndicators: string[];
   confidenceScore: number; // 1-100
+  dimensionScores: Record<string, number>; // 1-100 per dimension
+  dimensionRationale?: Record<string, string>; // one or two sentences per dimension explaining its score
+  scoringVersion: string;
+  integrity?: IntegrityReport; // absent on dossiers scored before integrity analysis existed
+  protocolName?: string; // set when a custom protocol was used instead of the standard scan
+  redactedSections?: ReportSection[]; // set only on copies shown to a proctored subject
+  generation?: GenerationMetadata; // absent on dossiers from before prompt versioning
+  generatedAt: string;
+}
+
+export interface AssessmentSession {
+  id: string;
+  username: string;
+  questions: Question[];
+  answers: Answer[];
+  currentQuestionIndex: number;
+  currentQuestionElapsed: number; // ms already spent on the current question before the session was left
+  questionCount?: number; // depth the scan was started at; absent for adaptive runs
+  adaptive?: boolean; // questions are chosen one at a time from earlier answers
+  protocol?: AssessmentProtocol; // snapshot of the custom protocol, so later edits don't affect this run
+  proctoring?: ProctorSettings;
+  locale?: Locale; // language chosen when the session started; English when absent
+  questionGeneration?: GenerationMetadata; // seed and prompt revision used for this question set
+  startedAt: string;
+  updatedAt: string;
+}
+
+// One turn of a post-assessment interrogation of the profiler about a dossier
+export interface InterrogationMessage {
+  role: 'interrogator' | 'profiler';
+  text: string;
+  citations?: number[]; // 1-based answer numbers the reply cites as [Q#]; profiler replies only
+  generation?: GenerationMetadata; // profiler replies only
+  sentAt: string;
+}
+
+export interface ArchivedDossier {
+  id: string;
+  username: string;
+  report: PersonalityReport;
+  answers: Answer[];
+  questions: Question[];
+  proctoring?: ProctorSettings;
+  locale?: Locale; // language the questions and report were generated in; English when absent
+  protocol?: AssessmentProtocol; // snapshot of the custom protocol, needed to replay the analysis
+  questionGeneration?: GenerationMetadata;
+  interrogation?: InterrogationMessage[]; // questions put to the profiler about this dossier, oldest first
+  startedAt: string;
+  completedAt: string;
+}
+
+export type UserRole = 'subject' | 'proctor';
+
+export interface UserProfile {
+  username: string;
+  role: UserRole;
+  passphraseHash: string; // hex PBKDF2-SHA-256; the passphrase itself is never stored
+  salt: string;
+  createdAt: string;
+  consent?: ConsentRecord;
+  pseudonymize?: boolean; // replace the codename with a pseudonym in requests to the AI provider
+}
+
+// Acceptance of the data notice shown before the first assessment
+export interface ConsentRecord {
+  version: number; // notice revision; a newer notice is shown again
+  acceptedAt: string;
+}
+
+// How long this terminal keeps each kind of record; null keeps it until deleted
+export interface RetentionPolicy {
+  dossierDays: number | null;
+  sessionDays: number | null;
+}
+
+// Report parts a proctor can withhold from the subject
+export type ReportSection =
+  | 'score'
+  | 'dimensionScores'
+  | 'dominantTraits'
+  | 'strengths'
+  | 'weaknesses'
+  | 'behavioralTendencies'
+  | 'riskIndicators'
+  | 'integrity';
+
+export interface Invitation {
+  code: string;
+  createdBy: string;
+  subject?: string; // codename the invitation is addressed to; anyone may redeem it when absent
+  questionCount: number;
+  protocolId?: string; // custom protocol to run instead of the standard scan
+  hiddenSections: ReportSection[];
+  createdAt: string;
+  redeemedBy?: string;
+  redeemedAt?: string;
+  revoked?: boolean;
+}
+
+// Carried by sessions and dossiers started from an invitation
+export interface ProctorSettings {
+  invitationCode: string;
+  proctor: string;
+  hiddenSections: ReportSection[];
+}
+
+export interface DimensionComparison {
+  dimension: string;
+  scores: Record<string, number | null>; // keyed by dossier id; null when that run did not score the dimension
+  mean: number;
+  spread: number; // highest minus lowest score among the subjects that have one
+  divergent: boolean;
+}
+
+// Two subjects produce a pair compatibility report, three or more a team summary
+export interface CompatibilityReport {
+  mode: 'pair' | 'team';
+  subjects: string[];
+  compatibilityScore: number; // 1-100, computed locally from dimension distances
+  summary: string;
+  synergies: string[];
+  frictionPoints: string[];
+  recommendations: string[];
   generatedAt: string;
 }
 
@@ -48,4 +285,24 @@ export interface LeaderboardEntry {
   score: number;
   date: string;
   id: string;
+  questionCount: number; // scan depth that produced the score
+  scoringVersion: string;
+}
+
+export type LeaderboardWindow = 'day' | 'week' | 'month' | 'all';
+
+export interface LeaderboardQuery {
+  page: number;
+  pageSize: number;
+  questionCount?: number;
+  window: LeaderboardWindow;
+  scoringVersion: string; // scores from other scoring formulas are not comparable, so they are ranked apart
+}
+
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  offline?: boolean; // served from the local fallback store
 }
\ No newline at end of file
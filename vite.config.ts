@@ -8,11 +8,19 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.SERVER_PORT || 8787}`,
+        },
       },
       plugins: [react()],
+      // Only non-secret settings reach the bundle. Real backends are called through the
+      // server's /api/ai proxy, which holds the keys; only the offline mock runs in the browser.
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER === 'mock' ? 'mock' : 'proxy'),
+        'process.env.AI_UPSTREAM': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL),
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL),
+        'process.env.LEADERBOARD_URL': JSON.stringify(env.LEADERBOARD_URL)
       },
       resolve: {
         alias: {